@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import type {
+  ConsentCategories,
+  ConsentGatePlaceholder,
+  ConsentGateProps,
+} from "./types";
+import { DEFAULT_LANGUAGE, DEFAULT_BRAND_COLOR } from "./defaults";
+import { getThemeColors } from "./theme";
+import { getEmbedVendor } from "./embeds";
+import { getVendors } from "./vendors";
+import {
+  resolveLanguage,
+  getLocaleChain,
+  getLocaleDir,
+  resolveConsentTexts,
+} from "./locales";
+import { useConsent } from "./use-consent";
+import { useOptionalConsentController } from "./CookieConsentProvider";
+
+// ─── Helpers ───
+
+function fillMessage(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match,
+  );
+}
+
+// ─── Component ───
+
+/**
+ * Holds back a third-party embed until its consent category is granted,
+ * showing a placeholder with a button that grants it instead. Reacts live to
+ * choices made in the banner, in other tabs or through `window.Loi25`.
+ *
+ * Inside a `<CookieConsentProvider>` it follows the banner's language and
+ * jurisdiction, so content granted by default (PIPEDA, CCPA) loads at once.
+ *
+ * @example
+ * ```tsx
+ * <ConsentGate vendor='youtube' style={{ aspectRatio: '16 / 9' }}>
+ *   <iframe
+ *     src='https://www.youtube.com/embed/dQw4w9WgXcQ'
+ *     title='Video'
+ *     allowFullScreen
+ *   />
+ * </ConsentGate>
+ * ```
+ */
+export function ConsentGate({
+  category: categoryProp,
+  vendor,
+  children,
+  placeholder,
+  lang = "fr",
+  theme = "light",
+  brandColor = DEFAULT_BRAND_COLOR,
+  textsFr,
+  textsEn,
+  locales,
+  className,
+  style,
+  expiryDays,
+  policyVersion,
+  storage,
+  vendors,
+}: ConsentGateProps) {
+  const controller = useOptionalConsentController();
+  const standalone = useConsent({
+    expiryDays,
+    policyVersion,
+    storage,
+    vendors,
+  });
+
+  // Detect after mount so server and client render the same markup first
+  const [detected, setDetected] = useState(DEFAULT_LANGUAGE);
+  useEffect(() => {
+    if (lang === "auto") setDetected(resolveLanguage("auto", locales));
+  }, [lang, locales]);
+  const resolvedLang = controller
+    ? controller.language
+    : lang === "auto"
+      ? detected
+      : resolveLanguage(lang, locales);
+  const localeChain = getLocaleChain(resolvedLang, locales);
+
+  // ─── Resolve texts ───
+  // The gate's own overrides first, then the banner's when there is one
+  const { texts, getCategoryTexts } = resolveConsentTexts(
+    localeChain,
+    { fr: textsFr, en: textsEn },
+    controller ? { [resolvedLang]: controller.texts } : {},
+  );
+
+  // A registered vendor has its own state; embed vendors only name a category
+  const registered = (
+    controller ? controller.vendors : getVendors(vendors)
+  ).find((v) => v.id === vendor);
+  const known = getEmbedVendor(vendor);
+  const category =
+    categoryProp ?? registered?.category ?? known?.category ?? "marketing";
+  const { isGranted, isVendorAllowed } = controller ?? standalone;
+
+  if (isGranted(category) && (!registered || isVendorAllowed(registered.id))) {
+    return <>{children}</>;
+  }
+
+  const vendorName =
+    registered?.name ?? known?.name ?? vendor ?? texts.gateThirdParty;
+  const categoryLabel = (controller?.getCategoryTexts ?? getCategoryTexts)(
+    category,
+  ).label;
+
+  // Keep every other category as it is: only this one (and vendor) is added
+  const load = () => {
+    const current: Partial<ConsentCategories> = controller
+      ? controller.categoryIds.reduce<Partial<ConsentCategories>>(
+          (acc, id) => ({ ...acc, [id]: controller.isGranted(id) }),
+          {},
+        )
+      : (standalone.categories ?? {});
+    standalone.setConsent(
+      { ...current, [category]: true },
+      registered ? { [registered.id]: true } : undefined,
+    );
+  };
+
+  const gate: ConsentGatePlaceholder = {
+    vendor: vendorName,
+    category,
+    categoryLabel,
+    message: fillMessage(texts.gateMessage, {
+      vendor: vendorName,
+      category: categoryLabel,
+    }),
+    load,
+  };
+
+  if (placeholder) return <>{placeholder(gate)}</>;
+
+  const colors = getThemeColors(theme, false);
+
+  return (
+    <div
+      className={["loi25-gate", className].filter(Boolean).join(" ")}
+      lang={resolvedLang}
+      dir={controller ? controller.dir : getLocaleDir(resolvedLang, locales)}
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 14,
+        padding: 24,
+        boxSizing: "border-box",
+        textAlign: "center",
+        background: colors.btnBg,
+        color: colors.text,
+        border: `1px solid ${colors.border}`,
+        borderRadius: 12,
+        fontSize: 14,
+        lineHeight: 1.5,
+        ...style,
+      }}
+    >
+      <p style={{ margin: 0, maxWidth: 480 }}>{gate.message}</p>
+      <button
+        type='button'
+        className='loi25-gate-load'
+        onClick={load}
+        style={{
+          background: brandColor,
+          color: "#fff",
+          border: "none",
+          padding: "11px 24px",
+          borderRadius: 8,
+          fontWeight: 600,
+          fontSize: 14,
+          cursor: "pointer",
+        }}
+      >
+        {texts.gateLoad}
+      </button>
+    </div>
+  );
+}
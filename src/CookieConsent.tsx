@@ -1,50 +1,14 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from "react";
-import type { CookieConsentProps, ConsentLevel } from "./types";
+import React, { useEffect, useRef, useState } from "react";
+import type { CookieConsentProps } from "./types";
+import { DEFAULT_BRAND_COLOR } from "./defaults";
+import { getThemeColors } from "./theme";
 import {
-  DEFAULT_TEXTS,
-  STORAGE_KEY,
-  STORAGE_DATE_KEY,
-  CONSENT_CHANGE_EVENT,
-  DEFAULT_BRAND_COLOR,
-  DEFAULT_EXPIRY_DAYS,
-  DEFAULT_WAIT_FOR_UPDATE,
-} from "./defaults";
-
-// ─── Helpers ───
-
-function detectLanguage(): "fr" | "en" {
-  if (typeof navigator === "undefined") return "fr";
-  const lang = navigator.language?.substring(0, 2);
-  return lang === "en" ? "en" : "fr";
-}
-
-function isExpired(expiryDays: number): boolean {
-  try {
-    const d = localStorage.getItem(STORAGE_DATE_KEY);
-    if (!d) return true;
-    const age = (Date.now() - parseInt(d, 10)) / (1000 * 60 * 60 * 24);
-    return age > expiryDays;
-  } catch {
-    return true;
-  }
-}
-
-function getStoredConsent(expiryDays: number): ConsentLevel | null {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY) as ConsentLevel | null;
-    if (stored && !isExpired(expiryDays)) return stored;
-    // Expired — clean up
-    if (stored) {
-      localStorage.removeItem(STORAGE_KEY);
-      localStorage.removeItem(STORAGE_DATE_KEY);
-    }
-    return null;
-  } catch {
-    return null;
-  }
-}
+  CookieConsentProvider,
+  useConsentController,
+  useOptionalConsentController,
+} from "./CookieConsentProvider";
 
 // ─── Injected CSS (hover, focus, responsive, glassmorphism) ───
 
@@ -57,6 +21,7 @@ function buildInjectCss(
 #loi25-banner *{box-sizing:border-box;margin:0;padding:0;}
 #loi25-banner button{cursor:pointer;transition:transform .15s,opacity .15s;}
 #loi25-banner button:hover{transform:translateY(-1px);opacity:.9;}
+#loi25-banner button:disabled{cursor:not-allowed;transform:none;}
 #loi25-banner button:focus-visible,#loi25-banner a:focus-visible{outline:2px solid ${brandColor};outline-offset:2px;}
 ${glassmorphism ? "#loi25-banner.loi25-glass{backdrop-filter:blur(16px) saturate(1.8);-webkit-backdrop-filter:blur(16px) saturate(1.8);}" : ""}
 #loi25-reconsent{transition:transform .2s,opacity .3s;}
@@ -66,23 +31,84 @@ ${glassmorphism ? "#loi25-banner.loi25-glass{backdrop-filter:blur(16px) saturate
   #loi25-banner .loi25-btns{flex-direction:column!important;}
   #loi25-banner .loi25-btns button{width:100%!important;}
 }
+@media(prefers-reduced-motion:reduce){
+  #loi25-banner,#loi25-banner *,#loi25-overlay,#loi25-reconsent{transition:none!important;}
+  #loi25-banner button:hover,#loi25-reconsent:hover{transform:none!important;}
+}
 ${customCss}`.trim();
 }
 
-// ─── Theme colors (matches WordPress plugin exactly) ───
-
-function getThemeColors(theme: "light" | "dark", glassmorphism: boolean) {
-  const dk = theme === "dark";
-  return {
-    bg: dk
-      ? `rgba(24,24,27,${glassmorphism ? ".75" : "1"})`
-      : `rgba(255,255,255,${glassmorphism ? ".8" : "1"})`,
-    text: dk ? "#e4e4e7" : "#1e293b",
-    muted: dk ? "#a1a1aa" : "#64748b",
-    border: dk ? "#3f3f46" : "#e2e8f0",
-    btnBg: dk ? "#27272a" : "#f1f5f9",
-    btnText: dk ? "#e4e4e7" : "#334155",
-  };
+// ─── Focus ───
+
+const FOCUSABLE_SELECTOR = [
+  "button:not(:disabled)",
+  "a[href]",
+  "summary",
+  "input:not(:disabled)",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+// Tab stops of the banner, skipping the content of closed vendor lists
+function getFocusable(root: HTMLElement): HTMLElement[] {
+  return Array.from(
+    root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+  ).filter((el) => {
+    const details = el.parentElement?.closest("details");
+    return !details || details.open || el === details.querySelector("summary");
+  });
+}
+
+// ─── Switch ───
+
+// On/off switch of the preferences panel, smaller for vendors
+function Switch({
+  on,
+  labelledBy,
+  onClick,
+  color,
+  small = false,
+}: {
+  on: boolean;
+  labelledBy: string;
+  onClick: () => void;
+  color: string;
+  small?: boolean;
+}) {
+  const height = small ? 18 : 22;
+  const knob = height - 6;
+  const width = small ? 32 : 40;
+  return (
+    <button
+      type='button'
+      role='switch'
+      aria-checked={on}
+      aria-labelledby={labelledBy}
+      onClick={onClick}
+      style={{
+        position: "relative",
+        flexShrink: 0,
+        width,
+        height,
+        borderRadius: height / 2,
+        border: "none",
+        background: color,
+        transition: "background .2s",
+      }}
+    >
+      <span
+        style={{
+          position: "absolute",
+          top: 3,
+          insetInlineStart: on ? width - knob - 3 : 3,
+          width: knob,
+          height: knob,
+          borderRadius: "50%",
+          background: "#fff",
+          transition: "inset-inline-start .2s",
+        }}
+      />
+    </button>
+  );
 }
 
 // ─── Main Component ───
@@ -94,6 +120,10 @@ function getThemeColors(theme: "light" | "dark", glassmorphism: boolean) {
  * 3 banner styles (bar / popup / corner), bilingual support, and smooth
  * animations. Zero external dependencies.
  *
+ * The consent logic lives in `<CookieConsentProvider>`; this component is
+ * the built-in renderer on top of it. Inside a provider it only renders the
+ * banner, and the provider's props apply.
+ *
  * **Google Consent Mode v2 compliance** requires a synchronous inline
  * `<script>` in `<head>` that sets consent defaults **before** Google tags
  * load. Use `getConsentModeScript()` for this. The `<CookieConsent>`
@@ -126,7 +156,7 @@ function getThemeColors(theme: "light" | "dark", glassmorphism: boolean) {
  *           adsDataRedaction
  *           urlPassthrough
  *           privacyUrl="/privacy"
- *           onConsent={(level) => console.log('Consent:', level)}
+ *           onConsent={(level, categories) => console.log('Consent:', level, categories)}
  *         />
  *       </body>
  *     </html>
@@ -134,8 +164,18 @@ function getThemeColors(theme: "light" | "dark", glassmorphism: boolean) {
  * }
  * ```
  */
-export function CookieConsent({
-  lang = "fr",
+export function CookieConsent(props: CookieConsentProps) {
+  // Inside a <CookieConsentProvider>, only render; the provider's props
+  // drive the consent logic.
+  const parent = useOptionalConsentController();
+  const banner = <CookieConsentBanner {...props} />;
+  if (parent) return banner;
+  return <CookieConsentProvider {...props}>{banner}</CookieConsentProvider>;
+}
+
+// ─── Renderer ───
+
+function CookieConsentBanner({
   position = "bottom",
   theme = "light",
   style = "bar",
@@ -143,272 +183,144 @@ export function CookieConsent({
   privacyUrl = "/politique-de-confidentialite",
   poweredBy = false,
   brandColor = DEFAULT_BRAND_COLOR,
-  expiryDays = DEFAULT_EXPIRY_DAYS,
   showReconsent = true,
   animation = "slide",
   showIcon = true,
   customCss = "",
-  textsFr,
-  textsEn,
-  onConsent,
-  consentMode = false,
-  adsDataRedaction = false,
-  urlPassthrough = false,
-  consentModeRegion,
-  waitForUpdate = DEFAULT_WAIT_FOR_UPDATE,
-  scripts = "",
-  reloadOnConsent = false,
 }: CookieConsentProps) {
-  const [mounted, setMounted] = useState(false);
-  const [showBanner, setShowBanner] = useState(false);
-  const [isVisible, setIsVisible] = useState(false);
-  const [consent, setConsentState] = useState<ConsentLevel | null>(null);
-  const scriptsInjectedRef = useRef(false);
-  const consentModeInitRef = useRef(false);
-
-  // ─── Resolve language ───
-  const resolvedLang =
-    lang === "auto" ? (mounted ? detectLanguage() : "fr") : lang;
-
-  // ─── Resolve texts ───
-  const defaults = DEFAULT_TEXTS[resolvedLang] || DEFAULT_TEXTS.fr;
-  const customTexts = resolvedLang === "fr" ? textsFr : textsEn;
-  const texts = {
-    title: customTexts?.title || defaults.title,
-    message: customTexts?.message || defaults.message,
-    accept: customTexts?.accept || defaults.accept,
-    reject: customTexts?.reject || defaults.reject,
-    privacy: customTexts?.privacy || defaults.privacy,
-    powered: customTexts?.powered || defaults.powered,
-  };
+  const {
+    mounted,
+    language,
+    dir,
+    texts,
+    getCategoryTexts,
+    categoryIds,
+    consent,
+    showBanner,
+    isVisible,
+    showPreferences,
+    draft,
+    policyUpdated,
+    policyChangeDetails,
+    showSignalNotice,
+    buttons,
+    acceptAll,
+    rejectAll,
+    dismiss,
+    doNotSell,
+    savePreferences,
+    openPreferences,
+    toggleCategory,
+    toggleVendor,
+    vendors,
+    draftVendors,
+    localize,
+    reopen,
+  } = useConsentController();
 
   // ─── Theme colors ───
   const colors = getThemeColors(theme, glassmorphism);
 
-  // ─── Initialize on mount ───
-  useEffect(() => {
-    setMounted(true);
-    const stored = getStoredConsent(expiryDays);
-    setConsentState(stored);
-    if (!stored) {
-      setShowBanner(true);
-    }
-  }, [expiryDays]);
+  const [announcement, setAnnouncement] = useState("");
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+  const openedRef = useRef(false);
+  // Latest dismiss, so the Escape handler never calls a stale one
+  const dismissRef = useRef(dismiss);
+  dismissRef.current = dismiss;
 
-  // ─── Sync with external consent changes (e.g. useConsent().resetConsent) ───
+  // ─── Remember focus and announce on open; restore it on close ───
   useEffect(() => {
     if (!mounted) return;
-    const handler = () => {
-      const stored = getStoredConsent(expiryDays);
-      setConsentState(stored);
-      if (!stored && !showBanner) {
-        setIsVisible(false);
-        setShowBanner(true);
-      }
-    };
-    window.addEventListener(CONSENT_CHANGE_EVENT, handler);
-    window.addEventListener("storage", handler);
-    return () => {
-      window.removeEventListener(CONSENT_CHANGE_EVENT, handler);
-      window.removeEventListener("storage", handler);
-    };
-  }, [mounted, expiryDays, showBanner]);
-
-  // ─── Animate banner in ───
-  useEffect(() => {
-    if (!showBanner || !mounted) return;
-
-    // Double rAF — matches the WordPress plugin's animation trigger
-    const raf1 = requestAnimationFrame(() => {
-      requestAnimationFrame(() => {
-        setIsVisible(true);
-      });
-    });
-
-    // Focus accept button for accessibility
-    const timer = setTimeout(() => {
-      const btn = document.getElementById("loi25-yes");
-      if (btn) btn.focus();
-    }, 500);
-
-    return () => {
-      cancelAnimationFrame(raf1);
-      clearTimeout(timer);
-    };
+    if (showBanner) {
+      // The reconsent button is already gone: its click remembered it
+      const active = document.activeElement as HTMLElement | null;
+      if (active && active !== document.body) returnFocusRef.current = active;
+      openedRef.current = true;
+      setAnnouncement(texts.bannerLabel);
+      return;
+    }
+    if (!openedRef.current) return;
+    openedRef.current = false;
+    if (consent) setAnnouncement(texts.consentSaved);
+    const target = returnFocusRef.current;
+    returnFocusRef.current = null;
+    // Leave focus alone if the visitor already moved it
+    const active = document.activeElement;
+    if (!target || (active && active !== document.body)) return;
+    // A re-rendered element (the reconsent button) is found by its id
+    const el = target.isConnected
+      ? target
+      : target.id
+        ? document.getElementById(target.id)
+        : null;
+    el?.focus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [showBanner, mounted]);
 
-  // ─── Google Consent Mode v2 ───
+  // ─── Focus the accept button once the banner is visible ───
   useEffect(() => {
-    if (!consentMode || !mounted) return;
-
-    // Set up dataLayer and gtag
-    const w = window as unknown as Record<string, unknown>;
-    w.dataLayer = (w.dataLayer as unknown[]) || [];
-    if (!w.gtag) {
-      w.gtag = function gtag() {
-        // eslint-disable-next-line prefer-rest-params
-        (w.dataLayer as unknown[]).push(arguments);
-      };
-    }
+    if (!showBanner || !isVisible) return;
+    const banner = document.getElementById("loi25-banner");
+    if (!banner || banner.contains(document.activeElement)) return;
+    (document.getElementById("loi25-yes") ?? getFocusable(banner)[0])?.focus();
+  }, [showBanner, isVisible]);
 
-    const gtag = w.gtag as (...args: unknown[]) => void;
-
-    // Only set defaults once
-    if (!consentModeInitRef.current) {
-      consentModeInitRef.current = true;
-
-      // Google requires defaults to ALWAYS start as 'denied' for tracking
-      // types. Functional/security types default to 'granted'.
-      const defaultConsent: Record<string, unknown> = {
-        ad_storage: "denied",
-        ad_user_data: "denied",
-        ad_personalization: "denied",
-        analytics_storage: "denied",
-        functionality_storage: "granted",
-        personalization_storage: "granted",
-        security_storage: "granted",
-        wait_for_update: waitForUpdate,
-      };
-
-      // Scope defaults to specific regions if provided
-      if (consentModeRegion && consentModeRegion.length > 0) {
-        defaultConsent.region = consentModeRegion;
-      }
-
-      gtag("consent", "default", defaultConsent);
-
-      // Redact ad click identifiers when ad_storage is denied
-      if (adsDataRedaction) {
-        gtag("set", "ads_data_redaction", true);
-      }
-
-      // Pass GCLID/DCLID through URL params when cookies are denied
-      if (urlPassthrough) {
-        gtag("set", "url_passthrough", true);
+  // ─── Popup: keep focus inside the dialog ───
+  useEffect(() => {
+    if (!showBanner || style !== "popup") return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Tab") return;
+      const banner = document.getElementById("loi25-banner");
+      const focusable = banner ? getFocusable(banner) : [];
+      if (!banner || focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      const outside = !banner.contains(active);
+      if (e.shiftKey && (outside || active === first)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (outside || active === last)) {
+        e.preventDefault();
+        first.focus();
       }
-
-      // If the user previously granted consent, immediately update so
-      // tags fire with full measurement data without waiting for the banner.
-      if (consent === "all") {
-        gtag("consent", "update", {
-          ad_storage: "granted",
-          ad_user_data: "granted",
-          ad_personalization: "granted",
-          analytics_storage: "granted",
-        });
+    };
+    // Focus moved out another way (a click, a script) is brought back
+    const onFocusIn = (e: FocusEvent) => {
+      const banner = document.getElementById("loi25-banner");
+      if (banner && !banner.contains(e.target as Node)) {
+        getFocusable(banner)[0]?.focus();
       }
-    }
-  }, [
-    consentMode,
-    consent,
-    mounted,
-    waitForUpdate,
-    consentModeRegion,
-    adsDataRedaction,
-    urlPassthrough,
-  ]);
+    };
+    document.addEventListener("keydown", onKeyDown);
+    document.addEventListener("focusin", onFocusIn);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      document.removeEventListener("focusin", onFocusIn);
+    };
+  }, [showBanner, style]);
 
-  // ─── Script Vault: inject scripts when consent is 'all' ───
+  // ─── Focus the first toggle when the preferences panel opens ───
   useEffect(() => {
-    if (!scripts || consent !== "all" || !mounted || scriptsInjectedRef.current)
-      return;
-    scriptsInjectedRef.current = true;
-
-    const tmp = document.createElement("div");
-    tmp.innerHTML = scripts;
-    const els = tmp.querySelectorAll("script");
-    els.forEach((el) => {
-      const ns = document.createElement("script");
-      if (el.src) {
-        ns.src = el.src;
-      } else {
-        ns.textContent = el.text || el.textContent || "";
-      }
-      Array.from(el.attributes).forEach((attr) => {
-        if (attr.name !== "src") ns.setAttribute(attr.name, attr.value);
-      });
-      document.head.appendChild(ns);
-    });
-  }, [scripts, consent, mounted]);
-
-  // ─── Keyboard: Escape = Necessary Only ───
+    if (!showPreferences) return;
+    const toggle = document.querySelector<HTMLElement>(
+      "#loi25-banner [role='switch']:not(:disabled)",
+    );
+    toggle?.focus();
+  }, [showPreferences]);
+
+  // ─── Keyboard: Escape = dismiss ───
   useEffect(() => {
     if (!showBanner) return;
     const handler = (e: KeyboardEvent) => {
       if (e.key === "Escape") {
-        handleConsent("necessary");
+        dismissRef.current();
       }
     };
     document.addEventListener("keydown", handler);
     return () => document.removeEventListener("keydown", handler);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [showBanner]);
 
-  // ─── Handle consent ───
-  const handleConsent = useCallback(
-    (level: ConsentLevel) => {
-      // Store in localStorage
-      try {
-        localStorage.setItem(STORAGE_KEY, level);
-        localStorage.setItem(STORAGE_DATE_KEY, Date.now().toString());
-      } catch {
-        // Silently fail
-      }
-
-      setConsentState(level);
-      setIsVisible(false); // Trigger exit animation
-
-      // Update Google Consent Mode — always send the update for both
-      // 'all' (granted) and 'necessary' (denied). This is critical for
-      // the reconsent flow where a user revokes previously granted consent.
-      if (consentMode) {
-        const w = window as unknown as Record<string, unknown>;
-        const gtag = w.gtag as ((...args: unknown[]) => void) | undefined;
-        if (gtag) {
-          const granted = level === "all";
-          gtag("consent", "update", {
-            ad_storage: granted ? "granted" : "denied",
-            ad_user_data: granted ? "granted" : "denied",
-            ad_personalization: granted ? "granted" : "denied",
-            analytics_storage: granted ? "granted" : "denied",
-          });
-        }
-      }
-
-      // Fire callback
-      onConsent?.(level);
-
-      // Dispatch custom event for useConsent hook
-      window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
-
-      // Remove banner after animation completes
-      setTimeout(() => {
-        setShowBanner(false);
-
-        // Reload if scripts need to run from page start
-        if (reloadOnConsent && level === "all" && scripts) {
-          window.location.reload();
-        }
-      }, 400);
-    },
-    [consentMode, onConsent, reloadOnConsent, scripts],
-  );
-
-  // ─── Handle reconsent ───
-  const handleReconsent = useCallback(() => {
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-      localStorage.removeItem(STORAGE_DATE_KEY);
-    } catch {
-      // Silently fail
-    }
-    setConsentState(null);
-    setIsVisible(false);
-    setShowBanner(true);
-    scriptsInjectedRef.current = false;
-    window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
-  }, []);
-
   // ─── SSR guard ───
   if (!mounted) return null;
 
@@ -474,7 +386,7 @@ export function CookieConsent({
       ...base,
       position: "fixed" as const,
       ...(position === "top" ? { top: 20 } : { bottom: 20 }),
-      right: 20,
+      [dir === "rtl" ? "left" : "right"]: 20,
       maxWidth: 380,
       width: "calc(100% - 40px)",
       borderRadius: 16,
@@ -490,7 +402,7 @@ export function CookieConsent({
       transform: isVisible
         ? "translateX(0)"
         : animation === "slide"
-          ? "translateX(120%)"
+          ? `translateX(${dir === "rtl" ? "-120%" : "120%"})`
           : "none",
       opacity: isVisible ? 1 : 0,
     };
@@ -505,6 +417,24 @@ export function CookieConsent({
         }}
       />
 
+      {/* ─── Screen reader announcements ─── */}
+      <div
+        id='loi25-status'
+        role='status'
+        aria-live='polite'
+        lang={language}
+        style={{
+          position: "absolute",
+          width: 1,
+          height: 1,
+          overflow: "hidden",
+          clip: "rect(0 0 0 0)",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {announcement}
+      </div>
+
       {/* ─── Popup overlay ─── */}
       {showBanner && style === "popup" && (
         <div
@@ -528,11 +458,10 @@ export function CookieConsent({
         <div
           id='loi25-banner'
           role='dialog'
-          aria-label={
-            resolvedLang === "fr"
-              ? "Consentement aux cookies"
-              : "Cookie consent"
-          }
+          aria-labelledby='loi25-title'
+          aria-describedby={showPreferences ? undefined : "loi25-message"}
+          lang={language}
+          dir={dir}
           aria-modal={style === "popup" ? "true" : undefined}
           className={glassmorphism ? "loi25-glass" : undefined}
           style={getBannerStyle()}
@@ -540,6 +469,7 @@ export function CookieConsent({
           <div className='loi25-inner' style={{ padding: "24px 28px" }}>
             {/* Title */}
             <div
+              id='loi25-title'
               style={{
                 fontWeight: 700,
                 fontSize: 17,
@@ -549,21 +479,238 @@ export function CookieConsent({
                 gap: 8,
               }}
             >
-              {showIcon && <span style={{ fontSize: 22 }}>🍪</span>}
-              {texts.title}
+              {showIcon && (
+                <span aria-hidden='true' style={{ fontSize: 22 }}>
+                  🍪
+                </span>
+              )}
+              {showPreferences ? texts.preferencesTitle : texts.title}
             </div>
 
+            {/* Policy change notice */}
+            {!showPreferences && policyUpdated && (
+              <div
+                className='loi25-policy-update'
+                role='note'
+                style={{
+                  margin: "0 0 12px",
+                  padding: "10px 12px",
+                  borderInlineStart: `3px solid ${brandColor}`,
+                  background: colors.btnBg,
+                  borderRadius: 6,
+                  fontSize: 13,
+                  lineHeight: 1.5,
+                }}
+              >
+                <strong>{texts.policyUpdated}</strong>
+                {policyChangeDetails && (
+                  <p style={{ marginTop: 4, color: colors.muted }}>
+                    {policyChangeDetails}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Browser privacy signal notice */}
+            {showSignalNotice && (
+              <div
+                className='loi25-browser-signal'
+                role='note'
+                style={{
+                  margin: "0 0 12px",
+                  padding: "10px 12px",
+                  borderInlineStart: `3px solid ${brandColor}`,
+                  background: colors.btnBg,
+                  borderRadius: 6,
+                  fontSize: 13,
+                  lineHeight: 1.5,
+                }}
+              >
+                {texts.browserSignal}
+              </div>
+            )}
+
             {/* Message */}
-            <p
-              style={{
-                margin: "0 0 18px",
-                color: colors.muted,
-                fontSize: 14,
-                lineHeight: 1.6,
-              }}
-            >
-              {texts.message}
-            </p>
+            {!showPreferences && (
+              <p
+                id='loi25-message'
+                style={{
+                  margin: "0 0 18px",
+                  color: colors.muted,
+                  fontSize: 14,
+                  lineHeight: 1.6,
+                }}
+              >
+                {texts.message}
+              </p>
+            )}
+
+            {/* Preferences panel — one toggle per category */}
+            {showPreferences && draft && (
+              <div
+                className='loi25-prefs'
+                style={{
+                  margin: "0 0 18px",
+                  maxHeight: "50vh",
+                  overflowY: "auto",
+                  border: `1px solid ${colors.border}`,
+                  borderRadius: 8,
+                }}
+              >
+                {categoryIds.map((id, i) => {
+                  const locked = id === "necessary";
+                  const on = locked || draft[id] === true;
+                  const catTexts = getCategoryTexts(id);
+                  const catVendors = vendors.filter((v) => v.category === id);
+                  return (
+                    <div
+                      key={id}
+                      style={{
+                        padding: "12px 14px",
+                        borderTop:
+                          i === 0 ? "none" : `1px solid ${colors.border}`,
+                      }}
+                    >
+                      <div
+                        style={{
+                          display: "flex",
+                          gap: 16,
+                          alignItems: "flex-start",
+                        }}
+                      >
+                        <div style={{ flex: 1 }}>
+                          <div
+                            id={`loi25-cat-${id}`}
+                            style={{ fontWeight: 600, fontSize: 14 }}
+                          >
+                            {catTexts.label}
+                          </div>
+                          {catTexts.description && (
+                            <p
+                              style={{
+                                marginTop: 4,
+                                color: colors.muted,
+                                fontSize: 13,
+                                lineHeight: 1.5,
+                              }}
+                            >
+                              {catTexts.description}
+                            </p>
+                          )}
+                        </div>
+                        {locked ? (
+                          <span
+                            style={{
+                              color: colors.muted,
+                              fontSize: 12,
+                              fontWeight: 600,
+                              whiteSpace: "nowrap",
+                              lineHeight: "22px",
+                            }}
+                          >
+                            {texts.alwaysActive}
+                          </span>
+                        ) : (
+                          <Switch
+                            on={on}
+                            labelledBy={`loi25-cat-${id}`}
+                            onClick={() => toggleCategory(id)}
+                            color={on ? brandColor : colors.border}
+                          />
+                        )}
+                      </div>
+                      {catVendors.length > 0 && (
+                        <details
+                          className='loi25-vendors'
+                          style={{ marginTop: 8 }}
+                        >
+                          <summary
+                            style={{
+                              cursor: "pointer",
+                              color: colors.muted,
+                              fontSize: 13,
+                              fontWeight: 600,
+                            }}
+                          >
+                            {texts.vendors} ({catVendors.length})
+                          </summary>
+                          {catVendors.map((vendor) => {
+                            const vendorOn =
+                              on && draftVendors?.[vendor.id] !== false;
+                            return (
+                              <div
+                                key={vendor.id}
+                                style={{
+                                  display: "flex",
+                                  gap: 16,
+                                  alignItems: "flex-start",
+                                  marginTop: 8,
+                                  paddingInlineStart: 12,
+                                  borderInlineStart: `2px solid ${colors.border}`,
+                                }}
+                              >
+                                <div style={{ flex: 1, fontSize: 13 }}>
+                                  <div
+                                    id={`loi25-vendor-${vendor.id}`}
+                                    style={{ fontWeight: 600 }}
+                                  >
+                                    {vendor.name}
+                                    {vendor.provider &&
+                                      vendor.provider !== vendor.name && (
+                                        <span
+                                          style={{
+                                            color: colors.muted,
+                                            fontWeight: 400,
+                                          }}
+                                        >
+                                          {" "}
+                                          · {vendor.provider}
+                                        </span>
+                                      )}
+                                  </div>
+                                  {vendor.purpose && (
+                                    <p
+                                      style={{
+                                        marginTop: 2,
+                                        color: colors.muted,
+                                        lineHeight: 1.5,
+                                      }}
+                                    >
+                                      {localize(vendor.purpose)}
+                                    </p>
+                                  )}
+                                  {vendor.privacyUrl && (
+                                    <a
+                                      href={vendor.privacyUrl}
+                                      target='_blank'
+                                      rel='noopener noreferrer'
+                                      style={{ color: brandColor }}
+                                    >
+                                      {texts.vendorPrivacy}
+                                    </a>
+                                  )}
+                                </div>
+                                {!locked && (
+                                  <Switch
+                                    on={vendorOn}
+                                    labelledBy={`loi25-vendor-${vendor.id}`}
+                                    onClick={() => toggleVendor(vendor.id)}
+                                    color={
+                                      vendorOn ? brandColor : colors.border
+                                    }
+                                    small
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
+                        </details>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
 
             {/* Buttons */}
             <div
@@ -575,38 +722,79 @@ export function CookieConsent({
                 alignItems: "center",
               }}
             >
-              <button
-                id='loi25-yes'
-                type='button'
-                onClick={() => handleConsent("all")}
-                style={{
-                  background: brandColor,
-                  color: "#fff",
-                  border: "none",
-                  padding: "11px 24px",
-                  borderRadius: 8,
-                  fontWeight: 600,
-                  fontSize: 14,
-                }}
-              >
-                {texts.accept}
-              </button>
-              <button
-                id='loi25-no'
-                type='button'
-                onClick={() => handleConsent("necessary")}
-                style={{
-                  background: colors.btnBg,
-                  color: colors.btnText,
-                  border: `1px solid ${colors.border}`,
-                  padding: "11px 24px",
-                  borderRadius: 8,
-                  fontWeight: 600,
-                  fontSize: 14,
-                }}
-              >
-                {texts.reject}
-              </button>
+              {buttons.includes("accept") && (
+                <button
+                  id='loi25-yes'
+                  type='button'
+                  onClick={acceptAll}
+                  style={{
+                    background: brandColor,
+                    color: "#fff",
+                    border: "none",
+                    padding: "11px 24px",
+                    borderRadius: 8,
+                    fontWeight: 600,
+                    fontSize: 14,
+                  }}
+                >
+                  {texts.accept}
+                </button>
+              )}
+              {buttons.includes("reject") && (
+                <button
+                  id='loi25-no'
+                  type='button'
+                  onClick={rejectAll}
+                  style={{
+                    background: colors.btnBg,
+                    color: colors.btnText,
+                    border: `1px solid ${colors.border}`,
+                    padding: "11px 24px",
+                    borderRadius: 8,
+                    fontWeight: 600,
+                    fontSize: 14,
+                  }}
+                >
+                  {texts.reject}
+                </button>
+              )}
+              {showPreferences && draft ? (
+                <button
+                  id='loi25-save'
+                  type='button'
+                  onClick={savePreferences}
+                  style={{
+                    background: colors.btnBg,
+                    color: colors.btnText,
+                    border: `1px solid ${colors.border}`,
+                    padding: "11px 24px",
+                    borderRadius: 8,
+                    fontWeight: 600,
+                    fontSize: 14,
+                  }}
+                >
+                  {texts.save}
+                </button>
+              ) : (
+                buttons.includes("customize") && (
+                  <button
+                    id='loi25-customize'
+                    type='button'
+                    onClick={openPreferences}
+                    style={{
+                      background: "transparent",
+                      color: colors.text,
+                      border: `1px solid ${colors.border}`,
+                      padding: "11px 24px",
+                      borderRadius: 8,
+                      fontWeight: 600,
+                      fontSize: 14,
+                    }}
+                  >
+                    {texts.customize}
+                  </button>
+                )
+              )}
             </div>
 
             {/* Footer links */}
@@ -619,6 +807,23 @@ export function CookieConsent({
                 alignItems: "center",
               }}
             >
+              {buttons.includes("doNotSell") && (
+                <button
+                  id='loi25-donotsell'
+                  type='button'
+                  onClick={doNotSell}
+                  style={{
+                    background: "none",
+                    border: "none",
+                    color: colors.text,
+                    fontSize: 12,
+                    fontWeight: 600,
+                    textDecoration: "underline",
+                  }}
+                >
+                  {texts.doNotSell}
+                </button>
+              )}
               <a
                 href={privacyUrl}
                 style={{
@@ -639,7 +844,7 @@ export function CookieConsent({
                   style={{
                     color: colors.muted,
                     fontSize: 11,
-                    marginLeft: "auto",
+                    marginInlineStart: "auto",
                     textDecoration: "none",
                     opacity: 0.6,
                   }}
@@ -657,14 +862,16 @@ export function CookieConsent({
         <button
           id='loi25-reconsent'
           type='button'
-          onClick={handleReconsent}
-          aria-label={
-            resolvedLang === "fr" ? "Gérer les cookies" : "Manage cookies"
-          }
+          onClick={(e) => {
+            returnFocusRef.current = e.currentTarget;
+            reopen();
+          }}
+          aria-label={texts.reconsentLabel}
+          lang={language}
           style={{
             position: "fixed",
             bottom: 20,
-            left: 20,
+            [dir === "rtl" ? "right" : "left"]: 20,
             zIndex: 999998,
             width: 44,
             height: 44,
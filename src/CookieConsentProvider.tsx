@@ -0,0 +1,977 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  useMemo,
+} from "react";
+import type {
+  BrowserSignal,
+  ConsentController,
+  CookieConsentProviderProps,
+  ConsentCategories,
+  ConsentLevel,
+  ConsentMethod,
+  ConsentStorage,
+  ConsentVendors,
+} from "./types";
+import {
+  DEFAULT_LANGUAGE,
+  STORAGE_KEY,
+  STORAGE_VERSION_KEY,
+  STORAGE_TC_STRING_KEY,
+  STORAGE_GPP_STRING_KEY,
+  CONSENT_CHANGE_EVENT,
+  DEFAULT_EXPIRY_DAYS,
+  DEFAULT_WAIT_FOR_UPDATE,
+} from "./defaults";
+import {
+  getCategoryIds,
+  resolveCategories,
+  summarizeCategories,
+} from "./categories";
+import { defaultStorage, writeStoredConsent } from "./storage";
+import {
+  createConsentManager,
+  registerConsentHandler,
+  exposeConsentManager,
+} from "./consent-manager";
+import { observeBlockedScripts } from "./script-blocker";
+import { injectScripts, removeInjectedScripts } from "./script-vault";
+import { getTeardowns, runTeardowns } from "./teardown";
+import { createConsentRecord } from "./consent-logger";
+import { purgeTrackingData, purgeVendorData } from "./cookie-cleanup";
+import { applyConsentAdapters } from "./vendor-adapters";
+import {
+  resolveGoogleConsentMapping,
+  getGoogleConsentDefaults,
+  getGoogleConsentUpdate,
+} from "./google-consent";
+import { resolveDataLayerEvents, pushDataLayerEvent } from "./datalayer";
+import {
+  resolveLanguage,
+  getLocaleChain,
+  getLocaleDir,
+  resolveConsentTexts,
+  localize,
+} from "./locales";
+import {
+  getVendors,
+  isVendorAllowed as checkVendor,
+  getRefusedVendors,
+  resolveVendorStates,
+} from "./vendors";
+import {
+  resolveJurisdiction,
+  getJurisdictionDefaults,
+  getJurisdictionButtons,
+  getJurisdictionConsentDefaults,
+  hasImpliedConsent,
+  applyOptOut,
+} from "./jurisdictions";
+import { detectBrowserSignal } from "./browser-signals";
+import { installTcfApi } from "./tcf";
+import type { TcfApi } from "./tcf";
+import { installGppApi } from "./gpp";
+import type { GppApi } from "./gpp";
+
+// ─── Helpers ───
+
+// Returns the version of a stored consent that no longer matches
+// `policyVersion` (`null` if it predates versioning), or `undefined` when
+// there is no outdated consent.
+function getOutdatedVersion(
+  storage: ConsentStorage,
+  policyVersion?: string,
+): string | null | undefined {
+  if (!policyVersion || !storage.getItem(STORAGE_KEY)) return undefined;
+  const version = storage.getItem(STORAGE_VERSION_KEY);
+  return version === policyVersion ? undefined : version;
+}
+
+// Runs a custom logger call. A logger that throws or rejects must not keep
+// the banner open or leave an unhandled rejection.
+function callLogger(call: () => void | Promise<void>): void {
+  try {
+    Promise.resolve(call()).catch(() => {});
+  } catch {
+    // Ignored, like a rejection
+  }
+}
+
+// ─── Context ───
+
+const ConsentControllerContext = createContext<ConsentController | null>(
+  null,
+);
+
+// ─── Provider ───
+
+/**
+ * Headless Quebec Law 25 consent: storage, Google Consent Mode, the Script
+ * Vault, IAB APIs and banner state, without any markup. Build your own
+ * banner with `useConsentController()`, or render `<CookieConsent>` inside
+ * it.
+ *
+ * @example
+ * ```tsx
+ * <CookieConsentProvider lang="auto" consentMode>
+ *   {children}
+ *   <MyBanner />
+ * </CookieConsentProvider>
+ * ```
+ */
+export function CookieConsentProvider({
+  lang = "fr",
+  expiryDays = DEFAULT_EXPIRY_DAYS,
+  textsFr,
+  textsEn,
+  locales,
+  categories,
+  vendors,
+  onConsent,
+  policyVersion,
+  storage = defaultStorage,
+  purgeOnRevoke = true,
+  cleanupPatterns,
+  teardowns,
+  consentLogger,
+  adapters,
+  respectBrowserSignals,
+  jurisdiction,
+  jurisdictions,
+  region,
+  tcf,
+  gpp,
+  consentMode = false,
+  googleConsentMapping,
+  dataLayerEvents = false,
+  adsDataRedaction = false,
+  urlPassthrough = false,
+  consentModeRegion,
+  waitForUpdate = DEFAULT_WAIT_FOR_UPDATE,
+  scripts = "",
+  onScriptLoad,
+  onScriptError,
+  reloadOnConsent = false,
+  reloadOnRevoke = false,
+  globalApi = false,
+  children,
+}: CookieConsentProviderProps) {
+  const [mounted, setMounted] = useState(false);
+  const [showBanner, setShowBanner] = useState(false);
+  const [isVisible, setIsVisible] = useState(false);
+  const [consent, setConsentState] = useState<ConsentCategories | null>(null);
+  const [vendorStates, setVendorStates] = useState<ConsentVendors | null>(
+    null,
+  );
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [draft, setDraft] = useState<ConsentCategories | null>(null);
+  const [draftVendors, setDraftVendors] = useState<ConsentVendors | null>(
+    null,
+  );
+  const [outdatedVersion, setOutdatedVersion] = useState<
+    string | null | undefined
+  >(undefined);
+  const [browserSignal, setBrowserSignal] = useState<BrowserSignal | null>(
+    null,
+  );
+  const [signalRejectPending, setSignalRejectPending] = useState(false);
+  const [detectedRegion, setDetectedRegion] = useState<
+    string | null | undefined
+  >(undefined);
+  const [storageReady, setStorageReady] = useState(!storage.ready);
+  const lastConsentRef = useRef<ConsentCategories | null>(null);
+  const lastVendorStatesRef = useRef<ConsentVendors | null>(null);
+  const reconsentResetRef = useRef(false);
+  // Set from the reconsent button until the next choice
+  const reconsentPendingRef = useRef(false);
+  const consentModeInitRef = useRef(false);
+  const tcfApiRef = useRef<TcfApi | null>(null);
+  const gppApiRef = useRef<GppApi | null>(null);
+
+  // ─── Resolve region and jurisdiction ───
+  const regionCode =
+    typeof region === "function" ? (detectedRegion ?? null) : (region ?? null);
+  // An async resolver holds the banner back until it settles
+  const regionPending =
+    typeof region === "function" && detectedRegion === undefined;
+  const activeJurisdiction = useMemo(
+    () => resolveJurisdiction(jurisdiction, jurisdictions, regionCode),
+    [jurisdiction, jurisdictions, regionCode],
+  );
+  const impliedConsent = hasImpliedConsent(activeJurisdiction);
+  const effectiveExpiryDays = Math.min(
+    expiryDays,
+    activeJurisdiction.maxExpiryDays ?? expiryDays,
+  );
+
+  // ─── Resolve language ───
+  const resolvedLang =
+    lang === "auto" && !mounted
+      ? DEFAULT_LANGUAGE
+      : resolveLanguage(lang, locales);
+  const localeChain = getLocaleChain(resolvedLang, locales);
+  const dir = getLocaleDir(resolvedLang, locales);
+
+  // ─── Resolve texts ───
+  const { texts, getCategoryTexts, policyChanges } = resolveConsentTexts(
+    localeChain,
+    { fr: textsFr, en: textsEn },
+    activeJurisdiction.texts ?? {},
+  );
+
+  // ─── Resolve policy change notice ───
+  const policyChangeDetails =
+    typeof policyChanges === "string"
+      ? policyChanges
+      : outdatedVersion
+        ? policyChanges?.[outdatedVersion]
+        : undefined;
+
+  // ─── Resolve categories and vendors ───
+  const categoryIds = useMemo(() => getCategoryIds(categories), [categories]);
+  const vendorList = useMemo(() => getVendors(vendors), [vendors]);
+  const manager = useMemo(
+    () =>
+      createConsentManager({
+        storage,
+        expiryDays: effectiveExpiryDays,
+        policyVersion,
+        vendors,
+      }),
+    [storage, effectiveExpiryDays, policyVersion, vendors],
+  );
+  const googleMapping = useMemo(
+    () => resolveGoogleConsentMapping(googleConsentMapping),
+    [googleConsentMapping],
+  );
+  const dataLayerEventNames = useMemo(
+    () => resolveDataLayerEvents(dataLayerEvents),
+    [dataLayerEvents],
+  );
+  const level = consent ? summarizeCategories(consent) : null;
+
+  // ─── Resolve browser signal handling ───
+  const browserSignals =
+    respectBrowserSignals ?? activeJurisdiction.respectBrowserSignals ?? false;
+  const signalMode =
+    browserSignals === "preselect"
+      ? "preselect"
+      : browserSignals
+        ? "reject"
+        : null;
+
+  // ─── State before a choice ───
+  // Necessary only, or the jurisdiction's implied defaults. A browser
+  // privacy signal opts out of its opt-out categories.
+  const preChoiceConsent = useMemo(() => {
+    const defaults = getJurisdictionDefaults(activeJurisdiction, categoryIds);
+    return browserSignal && signalMode
+      ? applyOptOut(activeJurisdiction, defaults)
+      : defaults;
+  }, [activeJurisdiction, categoryIds, browserSignal, signalMode]);
+  const activeConsent = consent ?? preChoiceConsent;
+  const activeLevel = summarizeCategories(activeConsent);
+  const isVendorAllowed = useCallback(
+    (id: string) => checkVendor(id, activeConsent, vendorStates, vendorList),
+    [activeConsent, vendorStates, vendorList],
+  );
+
+  // Vendor toggles for the preferences panel, starting from `base`
+  const getVendorDraft = useCallback(
+    (base: ConsentCategories): ConsentVendors =>
+      vendorList.reduce<ConsentVendors>(
+        (acc, vendor) => ({
+          ...acc,
+          [vendor.id]: checkVendor(vendor.id, base, vendorStates, vendorList),
+        }),
+        {},
+      ),
+    [vendorList, vendorStates],
+  );
+
+  // ─── Resolve the region once ───
+  useEffect(() => {
+    if (typeof region !== "function") return;
+    let cancelled = false;
+    Promise.resolve()
+      .then(region)
+      .then(
+        (code) => {
+          if (!cancelled) setDetectedRegion(code ?? null);
+        },
+        () => {
+          if (!cancelled) setDetectedRegion(null);
+        },
+      );
+    return () => {
+      cancelled = true;
+    };
+    // Resolvers are often inline functions; run it on mount only
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ─── Wait for asynchronous storage (e.g. a consent hub) ───
+  useEffect(() => {
+    if (!storage.ready) {
+      setStorageReady(true);
+      return;
+    }
+    let cancelled = false;
+    setStorageReady(false);
+    storage.ready().then(
+      () => {
+        if (!cancelled) setStorageReady(true);
+      },
+      () => {
+        if (!cancelled) setStorageReady(true);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
+
+  // ─── Initialize on mount ───
+  useEffect(() => {
+    if (regionPending || !storageReady) return;
+    setMounted(true);
+    const stored = manager.get();
+    setConsentState(stored);
+    setVendorStates(manager.getVendors());
+    const signal = signalMode ? detectBrowserSignal() : null;
+    setBrowserSignal(signal);
+    if (dataLayerEventNames) {
+      pushDataLayerEvent(dataLayerEventNames.initial, {
+        consent: stored ? { ...stored } : null,
+        level: stored ? summarizeCategories(stored) : null,
+        policyVersion: policyVersion ?? null,
+      });
+    }
+    if (!stored) {
+      setOutdatedVersion(getOutdatedVersion(storage, policyVersion));
+      if (signal && signalMode === "reject") {
+        // Recorded once handleConsent is available, without showing the banner
+        setSignalRejectPending(true);
+        return;
+      }
+      if (signal && signalMode === "preselect") {
+        const preselected = applyOptOut(
+          activeJurisdiction,
+          getJurisdictionDefaults(activeJurisdiction, categoryIds),
+        );
+        setDraft(preselected);
+        setDraftVendors(getVendorDraft(preselected));
+        setShowPreferences(true);
+      }
+      setShowBanner(true);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [manager, regionPending, storageReady, activeJurisdiction.id, signalMode]);
+
+  // ─── Retry consent records queued by an earlier visit ───
+  useEffect(() => {
+    const flush = consentLogger?.flush;
+    if (flush) callLogger(() => flush.call(consentLogger));
+  }, [consentLogger]);
+
+  // ─── Sync with external consent changes (e.g. useConsent().resetConsent) ───
+  useEffect(() => {
+    if (!mounted) return;
+    return manager.subscribe((stored) => {
+      if (stored) reconsentPendingRef.current = false;
+      setConsentState(stored);
+      setVendorStates(manager.getVendors());
+      // useConsent().setConsent drops the IAB strings it can't rebuild
+      if (stored && !storage.getItem(STORAGE_TC_STRING_KEY)) {
+        tcfApiRef.current?.update(stored, "tcloaded", resolvedLang);
+      }
+      if (stored && !storage.getItem(STORAGE_GPP_STRING_KEY)) {
+        gppApiRef.current?.update(stored, {
+          language: resolvedLang,
+          displayStatus: "hidden",
+        });
+      }
+      // handleReconsent opens the banner itself, with the previous choice
+      if (!stored && !showBanner && !reconsentResetRef.current) {
+        setIsVisible(false);
+        setShowBanner(true);
+        tcfApiRef.current?.update(null, "cmpuishown", resolvedLang);
+        gppApiRef.current?.update(null, {
+          language: resolvedLang,
+          displayStatus: "visible",
+        });
+      }
+    });
+  }, [mounted, manager, storage, showBanner, resolvedLang]);
+
+  // ─── IAB TCF v2.2 CMP API ───
+  useEffect(() => {
+    if (!mounted || !tcf) return;
+    const api = installTcfApi(tcf, storage);
+    tcfApiRef.current = api;
+    // With signalRejectPending, handleConsent publishes the choice
+    if (consent) api.update(consent, "tcloaded", resolvedLang);
+    else if (showBanner) api.update(null, "cmpuishown", resolvedLang);
+    return () => {
+      api.destroy();
+      tcfApiRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mounted, tcf, storage]);
+
+  // ─── IAB GPP CMP API ───
+  useEffect(() => {
+    if (!mounted || !gpp) return;
+    const api = installGppApi(gpp, storage);
+    gppApiRef.current = api;
+    // With signalRejectPending, handleConsent publishes the choice
+    if (consent || showBanner) {
+      api.update(consent, {
+        language: resolvedLang,
+        displayStatus: consent ? "hidden" : "visible",
+      });
+    }
+    return () => {
+      api.destroy();
+      gppApiRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mounted, gpp, storage]);
+
+  // ─── Animate banner in ───
+  useEffect(() => {
+    if (!showBanner || !mounted) return;
+
+    // Double rAF — matches the WordPress plugin's animation trigger
+    const raf1 = requestAnimationFrame(() => {
+      requestAnimationFrame(() => {
+        setIsVisible(true);
+      });
+    });
+
+    return () => cancelAnimationFrame(raf1);
+  }, [showBanner, mounted]);
+
+  // ─── GTM: banner shown ───
+  useEffect(() => {
+    if (!showBanner || !mounted || !dataLayerEventNames) return;
+    pushDataLayerEvent(dataLayerEventNames.bannerShown, {
+      language: resolvedLang,
+      policyVersion: policyVersion ?? null,
+    });
+    // Only when the banner opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showBanner, mounted]);
+
+  // ─── Google Consent Mode v2 ───
+  useEffect(() => {
+    if (!consentMode || !mounted) return;
+
+    // Set up dataLayer and gtag
+    const w = window as unknown as Record<string, unknown>;
+    w.dataLayer = (w.dataLayer as unknown[]) || [];
+    if (!w.gtag) {
+      w.gtag = function gtag() {
+        // eslint-disable-next-line prefer-rest-params
+        (w.dataLayer as unknown[]).push(arguments);
+      };
+    }
+
+    const gtag = w.gtag as (...args: unknown[]) => void;
+
+    // Only set defaults once
+    if (!consentModeInitRef.current) {
+      consentModeInitRef.current = true;
+
+      // Google requires defaults to ALWAYS start as 'denied' for tracking
+      // types. Types mapped to 'necessary' default to 'granted'.
+      const defaultConsent: Record<string, unknown> = {
+        ...getGoogleConsentDefaults(googleMapping),
+        wait_for_update: waitForUpdate,
+      };
+
+      // Scope defaults to specific regions if provided
+      if (consentModeRegion && consentModeRegion.length > 0) {
+        defaultConsent.region = consentModeRegion;
+      }
+
+      // Per-jurisdiction defaults; Google applies the most specific region
+      if (jurisdictions?.length) {
+        getJurisdictionConsentDefaults(jurisdictions, googleMapping).forEach(
+          (regionDefaults) =>
+            gtag("consent", "default", {
+              ...regionDefaults,
+              wait_for_update: waitForUpdate,
+            }),
+        );
+      }
+
+      gtag("consent", "default", defaultConsent);
+
+      // Redact ad click identifiers when ad_storage is denied
+      if (adsDataRedaction) {
+        gtag("set", "ads_data_redaction", true);
+      }
+
+      // Pass GCLID/DCLID through URL params when cookies are denied
+      if (urlPassthrough) {
+        gtag("set", "url_passthrough", true);
+      }
+
+      // If the user previously granted consent, immediately update so
+      // tags fire with full measurement data without waiting for the banner.
+      if (consent && level !== "necessary") {
+        gtag(
+          "consent",
+          "update",
+          getGoogleConsentUpdate(consent, googleMapping),
+        );
+      }
+
+      // Before a choice, confirm the state in effect right away instead
+      // of waiting for the banner: a browser privacy signal is an opt-out
+      // on its own, and implied-consent jurisdictions grant their defaults.
+      // In 'reject' mode handleConsent sends it with the recorded choice.
+      if (
+        !consent &&
+        (browserSignal || impliedConsent) &&
+        !signalRejectPending
+      ) {
+        gtag(
+          "consent",
+          "update",
+          getGoogleConsentUpdate(preChoiceConsent, googleMapping),
+        );
+      }
+    }
+  }, [
+    consentMode,
+    consent,
+    level,
+    browserSignal,
+    signalRejectPending,
+    impliedConsent,
+    preChoiceConsent,
+    jurisdictions,
+    googleMapping,
+    mounted,
+    waitForUpdate,
+    consentModeRegion,
+    adsDataRedaction,
+    urlPassthrough,
+  ]);
+
+  // ─── Vendor adapters: apply the current (or pre-choice) state ───
+  useEffect(() => {
+    if (!mounted || !adapters?.length) return;
+    // The previous choice stays applied while the reconsent banner is open
+    if (!consent && reconsentPendingRef.current) return;
+    applyConsentAdapters(adapters, activeConsent, isVendorAllowed);
+  }, [mounted, adapters, consent, activeConsent, isVendorAllowed]);
+
+  // ─── Script Vault: inject scripts when consent is 'all' ───
+  useEffect(() => {
+    if (!scripts || activeLevel !== "all" || !mounted) return;
+    // Tags already injected are skipped, so running again is harmless
+    void injectScripts(scripts, {
+      onLoad: onScriptLoad,
+      onError: onScriptError,
+    });
+    // Callbacks are read when injecting, not watched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scripts, activeLevel, mounted]);
+
+  // ─── Script blocking: activate granted data-consent-* scripts ───
+  useEffect(() => {
+    if (!mounted) return;
+    return observeBlockedScripts(
+      (category) =>
+        category === "necessary" || activeConsent[category] === true,
+      isVendorAllowed,
+    );
+  }, [mounted, activeConsent, isVendorAllowed]);
+
+  // ─── Withdrawn consent: tear down scripts, purge tracker cookies ───
+  useEffect(() => {
+    if (!mounted) return;
+    // The reconsent flow clears consent before the new choice is made, so
+    // what was applied is kept across the `null` in between. Implied
+    // defaults (CCPA) count as applied: an opt-out withdraws them.
+    if (!consent && lastConsentRef.current) return;
+    const previous = lastConsentRef.current;
+    const previousVendors = lastVendorStatesRef.current;
+    lastConsentRef.current = activeConsent;
+    lastVendorStatesRef.current = vendorStates;
+    if (!previous) return;
+    const revoked = Object.keys(previous).filter(
+      (id) => previous[id] && !activeConsent[id],
+    );
+    // A vendor can be refused while its category stays granted
+    const refused = getRefusedVendors(
+      vendorList,
+      { categories: previous, vendors: previousVendors },
+      { categories: activeConsent, vendors: vendorStates },
+    );
+    if (revoked.length === 0 && refused.length === 0) return;
+    // The Script Vault only runs with every category granted
+    const removed =
+      revoked.length > 0 && summarizeCategories(previous) === "all"
+        ? removeInjectedScripts()
+        : [];
+    runTeardowns(getTeardowns(teardowns), {
+      categories: revoked,
+      vendors: refused.map((vendor) => vendor.id),
+      tags: removed,
+    });
+    if (purgeOnRevoke) {
+      purgeTrackingData(revoked, cleanupPatterns);
+      purgeVendorData(refused);
+    }
+    // Teardowns are read when consent is withdrawn, not watched
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    mounted,
+    consent,
+    activeConsent,
+    vendorStates,
+    vendorList,
+    purgeOnRevoke,
+    cleanupPatterns,
+  ]);
+
+  // ─── Handle consent ───
+  const handleConsent = useCallback(
+    (
+      choice: ConsentLevel | Partial<ConsentCategories>,
+      method: ConsentMethod,
+      explicitVendors?: Partial<ConsentVendors>,
+    ) => {
+      const next = resolveCategories(choice, categoryIds);
+      const nextLevel = summarizeCategories(next);
+      const nextVendors = resolveVendorStates(
+        vendorList,
+        next,
+        { categories: consent, vendors: vendorStates },
+        explicitVendors,
+      );
+      const applied = lastConsentRef.current;
+      const revoked =
+        !!applied &&
+        (Object.keys(applied).some((id) => applied[id] && !next[id]) ||
+          getRefusedVendors(
+            vendorList,
+            { categories: applied, vendors: lastVendorStatesRef.current },
+            { categories: next, vendors: nextVendors },
+          ).length > 0);
+      const tcString = tcfApiRef.current?.update(
+        next,
+        "useractioncomplete",
+        resolvedLang,
+      );
+      const gppString = gppApiRef.current?.update(next, {
+        language: resolvedLang,
+        displayStatus: "hidden",
+        userAction: true,
+      });
+      const record = createConsentRecord(next, {
+        method,
+        language: resolvedLang,
+        policyVersion,
+        browserSignal,
+        tcString,
+        gppString,
+        vendors: nextVendors,
+      });
+
+      // Store with the configured adapter
+      writeStoredConsent(storage, next, {
+        consentId: record.consentId,
+        policyVersion,
+        vendors: nextVendors,
+      });
+
+      setConsentState(next);
+      setVendorStates(nextVendors);
+      reconsentPendingRef.current = false;
+      setOutdatedVersion(undefined);
+      setIsVisible(false); // Trigger exit animation
+
+      // Update Google Consent Mode — always send the update, granted or
+      // denied. This is critical for the reconsent flow where a user
+      // revokes previously granted consent.
+      if (consentMode) {
+        const w = window as unknown as Record<string, unknown>;
+        const gtag = w.gtag as ((...args: unknown[]) => void) | undefined;
+        if (gtag) {
+          gtag(
+            "consent",
+            "update",
+            getGoogleConsentUpdate(next, googleMapping),
+          );
+        }
+      }
+
+      // GTM trigger, pushed after the consent update so tags see it
+      if (dataLayerEventNames) {
+        pushDataLayerEvent(dataLayerEventNames.update, {
+          consent: { ...next },
+          level: nextLevel,
+          method,
+          policyVersion: policyVersion ?? null,
+        });
+      }
+
+      // Log proof of consent, then fire callback
+      if (consentLogger) callLogger(() => consentLogger.log(record));
+      onConsent?.(nextLevel, next, record);
+
+      // Dispatch custom event for useConsent hook
+      window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
+
+      // Remove banner after animation completes
+      setTimeout(() => {
+        setShowBanner(false);
+        setShowPreferences(false);
+
+        // Reload if scripts need to run from page start, or must stop
+        if (
+          (reloadOnConsent && nextLevel === "all" && scripts) ||
+          (reloadOnRevoke && revoked)
+        ) {
+          window.location.reload();
+        }
+      }, 400);
+    },
+    [
+      storage,
+      categoryIds,
+      vendorList,
+      consent,
+      vendorStates,
+      resolvedLang,
+      policyVersion,
+      browserSignal,
+      consentMode,
+      googleMapping,
+      dataLayerEventNames,
+      consentLogger,
+      onConsent,
+      reloadOnConsent,
+      reloadOnRevoke,
+      scripts,
+    ],
+  );
+
+  // ─── Browser privacy signals: record necessary-only consent ───
+  useEffect(() => {
+    if (!signalRejectPending) return;
+    setSignalRejectPending(false);
+    handleConsent(preChoiceConsent, "signal");
+  }, [signalRejectPending, preChoiceConsent, handleConsent]);
+
+  // ─── Preferences panel ───
+  const openPreferences = useCallback(() => {
+    setDraft((d) => d ?? preChoiceConsent);
+    setDraftVendors((v) => v ?? getVendorDraft(preChoiceConsent));
+    setShowPreferences(true);
+  }, [preChoiceConsent, getVendorDraft]);
+
+  const toggleCategory = useCallback(
+    (id: string) => {
+      if (id === "necessary" || !draft) return;
+      const on = !draft[id];
+      setDraft({ ...draft, [id]: on });
+      // The category switch sets all of its vendors
+      setDraftVendors((v) =>
+        vendorList.reduce<ConsentVendors>(
+          (acc, vendor) =>
+            vendor.category === id ? { ...acc, [vendor.id]: on } : acc,
+          v ?? {},
+        ),
+      );
+    },
+    [draft, vendorList],
+  );
+
+  const toggleVendor = useCallback(
+    (id: string) => {
+      const vendor = vendorList.find((v) => v.id === id);
+      if (!vendor || vendor.category === "necessary" || !draft) return;
+      const siblings = vendorList.filter((v) => v.category === vendor.category);
+      const next = { ...draftVendors };
+      if (draft[vendor.category]) {
+        next[id] = !next[id];
+      } else {
+        // Allowing a vendor of a denied category allows only that vendor
+        siblings.forEach((v) => {
+          next[v.id] = v.id === id;
+        });
+      }
+      setDraftVendors(next);
+      // The category stays on while any of its vendors is
+      setDraft({
+        ...draft,
+        [vendor.category]: siblings.some((v) => next[v.id]),
+      });
+    },
+    [draft, draftVendors, vendorList],
+  );
+
+  // ─── Handle reconsent ───
+  const handleReconsent = useCallback(() => {
+    // Pre-fill the preferences panel with the previous choice
+    setDraft(consent ? resolveCategories(consent, categoryIds) : null);
+    setDraftVendors(consent ? getVendorDraft(consent) : null);
+    setConsentState(null);
+    setIsVisible(false);
+    setShowBanner(true);
+    tcfApiRef.current?.update(consent, "cmpuishown", resolvedLang);
+    gppApiRef.current?.update(consent, {
+      language: resolvedLang,
+      displayStatus: "visible",
+    });
+    reconsentPendingRef.current = true;
+    reconsentResetRef.current = true;
+    try {
+      manager.reset();
+    } finally {
+      reconsentResetRef.current = false;
+    }
+  }, [consent, categoryIds, getVendorDraft, manager, resolvedLang]);
+
+  // ─── Open the preferences panel from outside the banner ───
+  const showPreferencesPanel = useCallback(() => {
+    setDraft(resolveCategories(consent ?? preChoiceConsent, categoryIds));
+    setDraftVendors(getVendorDraft(consent ?? preChoiceConsent));
+    setShowPreferences(true);
+    if (showBanner) return;
+    setIsVisible(false);
+    setShowBanner(true);
+    tcfApiRef.current?.update(consent, "cmpuishown", resolvedLang);
+    gppApiRef.current?.update(consent, {
+      language: resolvedLang,
+      displayStatus: "visible",
+    });
+  }, [
+    consent,
+    preChoiceConsent,
+    categoryIds,
+    getVendorDraft,
+    showBanner,
+    resolvedLang,
+  ]);
+
+  // ─── Consent manager: route set() / openPreferences() here ───
+  useEffect(() => {
+    if (!mounted) return;
+    return registerConsentHandler({
+      set: (choice, explicitVendors) =>
+        handleConsent(choice, "api", explicitVendors),
+      openPreferences: showPreferencesPanel,
+    });
+  }, [mounted, handleConsent, showPreferencesPanel]);
+
+  // ─── window.Loi25 ───
+  useEffect(() => {
+    if (!mounted || !globalApi) return;
+    return exposeConsentManager(
+      manager,
+      typeof globalApi === "string" ? globalApi : undefined,
+    );
+  }, [mounted, globalApi, manager]);
+
+  const controller: ConsentController = {
+    mounted,
+    language: resolvedLang,
+    dir,
+    region: regionCode,
+    jurisdiction: activeJurisdiction,
+    buttons: getJurisdictionButtons(activeJurisdiction),
+    texts,
+    getCategoryTexts,
+    categoryIds,
+    consent,
+    level,
+    isGranted: (category) =>
+      mounted && (category === "necessary" || activeConsent[category] === true),
+    vendors: vendorList,
+    vendorStates,
+    isVendorAllowed: (id) => mounted && isVendorAllowed(id),
+    localize: (text) => localize(text, localeChain),
+    showBanner,
+    isVisible,
+    showPreferences,
+    draft,
+    draftVendors,
+    policyUpdated: outdatedVersion !== undefined,
+    policyChangeDetails,
+    browserSignal,
+    showSignalNotice:
+      showPreferences && !!browserSignal && signalMode === "preselect",
+    acceptAll: () => handleConsent("all", "accept"),
+    rejectAll: () => handleConsent("necessary", "reject"),
+    dismiss: () => handleConsent(preChoiceConsent, "escape"),
+    doNotSell: () =>
+      handleConsent(
+        applyOptOut(activeJurisdiction, consent ?? preChoiceConsent),
+        "opt-out",
+      ),
+    savePreferences: () => {
+      if (draft) handleConsent(draft, "customize", draftVendors ?? undefined);
+    },
+    openPreferences,
+    closePreferences: () => setShowPreferences(false),
+    toggleCategory,
+    toggleVendor,
+    reopen: handleReconsent,
+  };
+
+  return (
+    <ConsentControllerContext.Provider value={controller}>
+      {children}
+    </ConsentControllerContext.Provider>
+  );
+}
+
+// ─── Hook ───
+
+/**
+ * Banner state and actions from the nearest `<CookieConsentProvider>`.
+ * Throws outside of one.
+ *
+ * @example
+ * ```tsx
+ * function MyBanner() {
+ *   const { mounted, showBanner, texts, acceptAll, rejectAll } =
+ *     useConsentController();
+ *   if (!mounted || !showBanner) return null;
+ *   return (
+ *     <div role="dialog">
+ *       <p>{texts.message}</p>
+ *       <button onClick={acceptAll}>{texts.accept}</button>
+ *       <button onClick={rejectAll}>{texts.reject}</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useConsentController(): ConsentController {
+  const controller = useContext(ConsentControllerContext);
+  if (!controller) {
+    throw new Error(
+      "useConsentController() must be used inside <CookieConsentProvider>",
+    );
+  }
+  return controller;
+}
+
+/** The enclosing provider's controller, or `null`. Used by `<CookieConsent>`. */
+export function useOptionalConsentController(): ConsentController | null {
+  return useContext(ConsentControllerContext);
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import type { CookieDeclarationProps } from "./types";
+import { DEFAULT_LANGUAGE } from "./defaults";
+import { getCategoryIds } from "./categories";
+import { getThemeColors } from "./theme";
+import {
+  resolveLanguage,
+  getLocaleChain,
+  getLocaleDir,
+  resolveDeclarationTexts,
+  localize,
+} from "./locales";
+
+// ─── Component ───
+
+/**
+ * Cookie inventory table for your privacy policy page, grouped by consent
+ * category and rendered in French or English.
+ *
+ * @example
+ * ```tsx
+ * // app/politique-de-confidentialite/page.tsx
+ * import { CookieDeclaration, getCatalogCookies } from 'cookie-app';
+ *
+ * export default function PrivacyPage() {
+ *   return (
+ *     <CookieDeclaration
+ *       cookies={[
+ *         ...getCatalogCookies('ga4', 'hotjar'),
+ *         {
+ *           name: 'cart_id',
+ *           provider: 'Boutique',
+ *           category: 'necessary',
+ *           purpose: { fr: 'Conserve votre panier.', en: 'Keeps your cart.' },
+ *           duration: { fr: '7 jours', en: '7 days' },
+ *         },
+ *       ]}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function CookieDeclaration({
+  cookies,
+  lang = "fr",
+  theme = "light",
+  categories,
+  showEmpty = false,
+  textsFr,
+  textsEn,
+  locales,
+}: CookieDeclarationProps) {
+  // Detect after mount so server and client render the same markup first
+  const [detected, setDetected] = useState(DEFAULT_LANGUAGE);
+  useEffect(() => {
+    if (lang === "auto") setDetected(resolveLanguage("auto", locales));
+  }, [lang, locales]);
+  const resolvedLang =
+    lang === "auto" ? detected : resolveLanguage(lang, locales);
+  const localeChain = getLocaleChain(resolvedLang, locales);
+
+  // ─── Resolve texts ───
+  const { texts, getCategoryTexts } = resolveDeclarationTexts(localeChain, {
+    fr: textsFr,
+    en: textsEn,
+  });
+
+  const colors = getThemeColors(theme, false);
+
+  // Categories used by the inventory but not declared still get a section
+  const ids = getCategoryIds([
+    ...(categories ?? []),
+    ...cookies.map((c) => ({ id: c.category })),
+  ]);
+
+  const cellStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderBottom: `1px solid ${colors.border}`,
+    textAlign: "left",
+    verticalAlign: "top",
+  };
+
+  return (
+    <div
+      className='loi25-declaration'
+      lang={resolvedLang}
+      dir={getLocaleDir(resolvedLang, locales)}
+      style={{ color: colors.text, fontSize: 14, lineHeight: 1.5 }}
+    >
+      {ids.map((id) => {
+        const rows = cookies.filter((c) => c.category === id);
+        if (!rows.length && !showEmpty) return null;
+        const catTexts = getCategoryTexts(id);
+        return (
+          <section
+            key={id}
+            className='loi25-declaration-category'
+            style={{ marginBottom: 28 }}
+          >
+            <h3 style={{ fontSize: 17, fontWeight: 700, margin: "0 0 6px" }}>
+              {catTexts.label}
+            </h3>
+            {catTexts.description && (
+              <p style={{ margin: "0 0 12px", color: colors.muted }}>
+                {catTexts.description}
+              </p>
+            )}
+            {rows.length === 0 ? (
+              <p style={{ margin: 0, color: colors.muted, fontStyle: "italic" }}>
+                {texts.empty}
+              </p>
+            ) : (
+              <div style={{ overflowX: "auto" }}>
+                <table
+                  style={{
+                    width: "100%",
+                    borderCollapse: "collapse",
+                    border: `1px solid ${colors.border}`,
+                  }}
+                >
+                  <thead style={{ background: colors.btnBg }}>
+                    <tr>
+                      <th scope='col' style={cellStyle}>
+                        {texts.name}
+                      </th>
+                      <th scope='col' style={cellStyle}>
+                        {texts.provider}
+                      </th>
+                      <th scope='col' style={cellStyle}>
+                        {texts.purpose}
+                      </th>
+                      <th scope='col' style={cellStyle}>
+                        {texts.duration}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((c) => (
+                      <tr key={`${c.provider}:${c.name}`}>
+                        <td style={cellStyle}>
+                          <code>{c.name}</code>
+                          {c.type && c.type !== "cookie" && (
+                            <span
+                              style={{
+                                display: "block",
+                                color: colors.muted,
+                                fontSize: 12,
+                              }}
+                            >
+                              {c.type}
+                            </span>
+                          )}
+                        </td>
+                        <td style={cellStyle}>{c.provider}</td>
+                        <td style={cellStyle}>
+                          {localize(c.purpose, localeChain)}
+                        </td>
+                        <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                          {localize(c.duration, localeChain)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
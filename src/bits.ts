@@ -0,0 +1,144 @@
+// ─── Bit string helpers for IAB consent strings (TCF, GPP) ───
+
+const BASE64_URL =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Bits are kept as a '0'/'1' string: consent strings are a few hundred bytes
+// at most and fields are up to 36 bits wide, past what bitwise operators handle.
+export function int(value: number, bits: number): string {
+  return Math.max(0, Math.floor(value)).toString(2).padStart(bits, '0').slice(-bits);
+}
+
+export function bool(value: boolean): string {
+  return value ? '1' : '0';
+}
+
+/** Two upper-case letters, 6 bits each (`A` = 0). */
+export function letters(value: string): string {
+  const code = (value.toUpperCase() + 'AA').slice(0, 2);
+  return int(code.charCodeAt(0) - 65, 6) + int(code.charCodeAt(1) - 65, 6);
+}
+
+/** One bit per id from 1 to `length`. */
+export function bitfield(ids: number[], length: number): string {
+  const set = new Set(ids);
+  let bits = '';
+  for (let id = 1; id <= length; id++) bits += bool(set.has(id));
+  return bits;
+}
+
+/** TCF vendor section: 16-bit max id, then a bitfield. */
+export function vendorSection(ids: number[]): string {
+  const max = ids.length ? Math.max(...ids) : 0;
+  // Bitfield only — range encoding is accepted when decoding
+  return int(max, 16) + '0' + bitfield(ids, max);
+}
+
+/**
+ * Fibonacci (Zeckendorf) code of a positive integer, least significant
+ * term first and terminated by an extra `1`.
+ */
+export function fibonacci(value: number): string {
+  const terms = [1, 2];
+  while (terms[terms.length - 1] <= value) {
+    terms.push(terms[terms.length - 1] + terms[terms.length - 2]);
+  }
+  const bits: string[] = [];
+  let rest = value;
+  for (let i = terms.length - 1; i >= 0; i--) {
+    if (terms[i] <= rest) {
+      bits[i] = '1';
+      rest -= terms[i];
+    } else {
+      bits[i] = '0';
+    }
+  }
+  // Drop unused high terms; the highest term is always set
+  return bits.join('').replace(/0+$/, '') + '1';
+}
+
+/**
+ * GPP Fibonacci integer range: 12-bit entry count, then single ids and
+ * ranges, each value encoded as the offset from the previous one.
+ */
+export function fibonacciRange(ids: number[]): string {
+  const sorted = Array.from(new Set(ids)).sort((a, b) => a - b);
+  const groups: number[][] = [];
+  sorted.forEach((id) => {
+    const last = groups[groups.length - 1];
+    if (last && last[last.length - 1] === id - 1) last.push(id);
+    else groups.push([id]);
+  });
+  let bits = int(groups.length, 12);
+  let offset = 0;
+  groups.forEach((group) => {
+    const start = group[0];
+    const end = group[group.length - 1];
+    bits +=
+      start === end
+        ? '0' + fibonacci(start - offset)
+        : '1' + fibonacci(start - offset) + fibonacci(end - start);
+    offset = end;
+  });
+  return bits;
+}
+
+export function toBase64Url(bits: string): string {
+  let padded = bits + '0'.repeat((8 - (bits.length % 8)) % 8);
+  padded += '0'.repeat((6 - (padded.length % 6)) % 6);
+  let out = '';
+  for (let i = 0; i < padded.length; i += 6) {
+    out += BASE64_URL[parseInt(padded.slice(i, i + 6), 2)];
+  }
+  return out;
+}
+
+export function fromBase64Url(segment: string): string {
+  let bits = '';
+  for (const char of segment) {
+    const index = BASE64_URL.indexOf(char);
+    if (index < 0) throw new Error(`Invalid consent string character "${char}"`);
+    bits += int(index, 6);
+  }
+  return bits;
+}
+
+/** Sequential reader over a bit string. */
+export function createReader(bits: string) {
+  let offset = 0;
+
+  const read = (length: number): number => {
+    if (offset + length > bits.length) throw new Error('Consent string is truncated');
+    const value = parseInt(bits.slice(offset, offset + length), 2);
+    offset += length;
+    return value;
+  };
+  const readBool = () => read(1) === 1;
+  const readBitfield = (length: number): number[] => {
+    const ids: number[] = [];
+    for (let id = 1; id <= length; id++) if (readBool()) ids.push(id);
+    return ids;
+  };
+  const readRanges = (): number[] => {
+    const ids: number[] = [];
+    const entries = read(12);
+    for (let i = 0; i < entries; i++) {
+      const isRange = readBool();
+      const start = read(16);
+      const end = isRange ? read(16) : start;
+      for (let id = start; id <= end; id++) ids.push(id);
+    }
+    return ids;
+  };
+
+  return {
+    int: read,
+    bool: readBool,
+    bitfield: readBitfield,
+    letters: () => String.fromCharCode(read(6) + 65, read(6) + 65),
+    vendors: (): number[] => {
+      const max = read(16);
+      return readBool() ? readRanges() : readBitfield(max);
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import type { BrowserSignal } from './types';
+
+// ─── Browser privacy signals ───
+
+/**
+ * Returns the browser privacy signal the visitor sends, if any. Global
+ * Privacy Control takes precedence over the older Do Not Track header.
+ */
+export function detectBrowserSignal(): BrowserSignal | null {
+  if (typeof navigator === 'undefined') return null;
+  const nav = navigator as Navigator & {
+    globalPrivacyControl?: boolean;
+    msDoNotTrack?: string;
+  };
+  if (nav.globalPrivacyControl === true) return 'gpc';
+  const w = window as Window & { doNotTrack?: string };
+  const dnt = nav.doNotTrack ?? w.doNotTrack ?? nav.msDoNotTrack;
+  return dnt === '1' || dnt === 'yes' ? 'dnt' : null;
+}
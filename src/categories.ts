@@ -0,0 +1,75 @@
+import type {
+  ConsentCategories,
+  ConsentCategoryDefinition,
+  ConsentLevel,
+  ConsentSummary,
+} from './types';
+import { BUILT_IN_CATEGORIES } from './defaults';
+
+// ─── Category helpers ───
+
+/**
+ * Returns the ids of every known category: the built-in ones followed by
+ * any custom categories, without duplicates.
+ */
+export function getCategoryIds(custom?: ConsentCategoryDefinition[]): string[] {
+  const ids: string[] = [...BUILT_IN_CATEGORIES];
+  custom?.forEach((c) => {
+    if (!ids.includes(c.id)) ids.push(c.id);
+  });
+  return ids;
+}
+
+/**
+ * Expands a shorthand level or a partial category map into a full map over
+ * `ids`. `necessary` is always granted; unlisted categories are denied.
+ */
+export function resolveCategories(
+  choice: ConsentLevel | Partial<ConsentCategories>,
+  ids: readonly string[] = BUILT_IN_CATEGORIES,
+): ConsentCategories {
+  const result: ConsentCategories = {};
+  if (typeof choice === 'string') {
+    ids.forEach((id) => {
+      result[id] = choice === 'all' || id === 'necessary';
+    });
+    return result;
+  }
+  const keys = [...ids, ...Object.keys(choice).filter((k) => !ids.includes(k))];
+  keys.forEach((id) => {
+    result[id] = id === 'necessary' || choice[id] === true;
+  });
+  return result;
+}
+
+/** Summarizes a category map as `'all'`, `'necessary'` or `'custom'`. */
+export function summarizeCategories(categories: ConsentCategories): ConsentSummary {
+  const optional = Object.keys(categories).filter((id) => id !== 'necessary');
+  const granted = optional.filter((id) => categories[id]);
+  if (granted.length === optional.length) return 'all';
+  if (granted.length === 0) return 'necessary';
+  return 'custom';
+}
+
+/**
+ * Reads stored category states. Records written before categories existed
+ * (or by the WordPress plugin) only hold a level, which is expanded here.
+ */
+export function parseStoredCategories(
+  level: string | null,
+  raw: string | null,
+): ConsentCategories | null {
+  if (!level) return null;
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (parsed && typeof parsed === 'object') {
+        return resolveCategories(parsed as Partial<ConsentCategories>);
+      }
+    } catch {
+      // Fall through to the level
+    }
+  }
+  if (level === 'all' || level === 'necessary') return resolveCategories(level);
+  return null;
+}
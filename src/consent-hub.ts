@@ -0,0 +1,251 @@
+import type { ConsentStorage } from './types';
+import {
+  STORAGE_KEY,
+  STORAGE_DATE_KEY,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_ID_KEY,
+  STORAGE_VERSION_KEY,
+  STORAGE_TC_STRING_KEY,
+  STORAGE_GPP_STRING_KEY,
+  STORAGE_VENDORS_KEY,
+  CONSENT_CHANGE_EVENT,
+  DEFAULT_EXPIRY_DAYS,
+} from './defaults';
+import { createLocalStorage } from './storage';
+
+// ─── Types ───
+
+/** Options for `createHubStorage()`. */
+export interface HubStorageOptions {
+  /** URL of the hub page on the main domain, e.g. `'https://www.example.com/consent-hub'`. */
+  hubUrl: string;
+  /**
+   * Local copy, read synchronously and used on its own when the hub can't
+   * be reached or can't store anything.
+   * @default createLocalStorage()
+   */
+  storage?: ConsentStorage;
+  /** Milliseconds to wait for the hub before using the local copy. @default 1500 */
+  timeout?: number;
+}
+
+/** Options for `getConsentHubHtml()`. */
+export interface ConsentHubOptions {
+  /**
+   * Origins allowed to read and write consent through the hub. Use
+   * `'https://*.example.com'` to allow every subdomain.
+   */
+  allowedOrigins: string[];
+  /** Cookie domain on the hub's side, e.g. `'.example.com'`. Defaults to the hub's host. */
+  domain?: string;
+  /** Cookie lifetime in days. Should be at least `expiryDays`. @default 365 */
+  maxAgeDays?: number;
+}
+
+/** Messages exchanged between `createHubStorage()` and the hub page. */
+type HubMessage =
+  | { loi25Hub: 1; action: 'get' }
+  | { loi25Hub: 1; action: 'set'; values: Record<string, string | null> }
+  | { loi25Hub: 1; available: boolean; values: Record<string, string | null> };
+
+const HUB_KEYS = [
+  STORAGE_KEY,
+  STORAGE_DATE_KEY,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_ID_KEY,
+  STORAGE_VERSION_KEY,
+  STORAGE_TC_STRING_KEY,
+  STORAGE_GPP_STRING_KEY,
+  STORAGE_VENDORS_KEY,
+];
+
+// ─── Client ───
+
+/**
+ * Shares consent across separate domains through a hidden iframe: the hub
+ * page, served from your main domain with `getConsentHubHtml()`, keeps the
+ * choice in its own cookies. The hub is the source of truth; a local copy
+ * answers synchronous reads and takes over when the hub is unreachable.
+ *
+ * Browsers that block third-party cookies (Safari, Firefox) keep the
+ * hub's storage apart from the main domain. The hub then reports itself
+ * unavailable and each domain keeps its own choice.
+ *
+ * @example
+ * ```tsx
+ * const storage = createHubStorage({ hubUrl: 'https://www.example.com/consent-hub' });
+ *
+ * <CookieConsent storage={storage} />
+ * ```
+ */
+export function createHubStorage(options: HubStorageOptions): ConsentStorage {
+  const local = options.storage ?? createLocalStorage();
+  const timeout = options.timeout ?? 1500;
+  let frame: HTMLIFrameElement | null = null;
+  let loaded = false;
+  let available = true;
+  let outbox: HubMessage[] = [];
+  let ready: Promise<void> | null = null;
+
+  const hubOrigin = (): string => new URL(options.hubUrl, location.href).origin;
+
+  const post = (message: HubMessage) => {
+    if (!available) return;
+    if (!loaded) {
+      outbox.push(message);
+      return;
+    }
+    frame?.contentWindow?.postMessage(message, hubOrigin());
+  };
+
+  // The hub wins: copy its values over the local ones
+  const apply = (values: Record<string, string | null>) => {
+    let changed = false;
+    HUB_KEYS.forEach((key) => {
+      const value = values[key] ?? null;
+      if (local.getItem(key) === value) return;
+      changed = true;
+      if (value === null) local.removeItem(key);
+      else local.setItem(key, value);
+    });
+    if (changed) window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
+  };
+
+  const connect = (): Promise<void> =>
+    new Promise((resolve) => {
+      const timer = setTimeout(resolve, timeout);
+      window.addEventListener('message', (event: MessageEvent) => {
+        const data = event.data as HubMessage | null;
+        if (
+          event.origin !== hubOrigin() ||
+          event.source !== frame?.contentWindow ||
+          !data ||
+          data.loi25Hub !== 1 ||
+          !('available' in data)
+        ) {
+          return;
+        }
+        available = data.available;
+        if (available) apply(data.values);
+        else outbox = [];
+        clearTimeout(timer);
+        resolve();
+      });
+
+      frame = document.createElement('iframe');
+      frame.src = options.hubUrl;
+      frame.title = 'Consent hub';
+      frame.tabIndex = -1;
+      frame.setAttribute('aria-hidden', 'true');
+      frame.style.display = 'none';
+      frame.addEventListener('load', () => {
+        loaded = true;
+        // Writes made while loading go first, so the reply includes them
+        outbox.forEach(post);
+        outbox = [];
+        post({ loi25Hub: 1, action: 'get' });
+      });
+      frame.addEventListener('error', () => {
+        available = false;
+        resolve();
+      });
+      document.body.appendChild(frame);
+    });
+
+  return {
+    getItem: (key) => local.getItem(key),
+    setItem(key, value) {
+      local.setItem(key, value);
+      post({ loi25Hub: 1, action: 'set', values: { [key]: value } });
+    },
+    removeItem(key) {
+      local.removeItem(key);
+      post({ loi25Hub: 1, action: 'set', values: { [key]: null } });
+    },
+    inlineGetter: local.inlineGetter,
+    ready() {
+      if (typeof document === 'undefined') return Promise.resolve();
+      if (!ready) ready = connect();
+      return ready;
+    },
+  };
+}
+
+// ─── Hub page ───
+
+/**
+ * Returns the HTML of the hub page for `createHubStorage()`. Serve it from
+ * your main domain, and only let allowed origins frame it
+ * (`Content-Security-Policy: frame-ancestors ...`).
+ *
+ * @example
+ * ```ts
+ * // app/consent-hub/route.ts (on www.example.com)
+ * import { getConsentHubHtml } from 'cookie-app/server';
+ *
+ * const allowedOrigins = ['https://*.example.com', 'https://booking.example.net'];
+ *
+ * export function GET() {
+ *   return new Response(getConsentHubHtml({ allowedOrigins, domain: '.example.com' }), {
+ *     headers: {
+ *       'Content-Type': 'text/html; charset=utf-8',
+ *       'Content-Security-Policy': `frame-ancestors ${allowedOrigins.join(' ')}`,
+ *     },
+ *   });
+ * }
+ * ```
+ */
+export function getConsentHubHtml(options: ConsentHubOptions): string {
+  const maxAge = Math.round((options.maxAgeDays ?? DEFAULT_EXPIRY_DAYS) * 24 * 60 * 60);
+  const domain = options.domain ? `; Domain=${options.domain}` : '';
+  // Third-party context: the cookies must be SameSite=None; Secure
+  const attributes = `; Path=/${domain}; SameSite=None; Secure`;
+
+  // JSON in an inline <script>: keep `</script>` out of it
+  const json = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+  // The inline script:
+  // 1. Answers only allowed origins (exact, or `scheme://*.suffix`)
+  // 2. Reports whether its cookies can be written at all
+  // 3. Stores `set` values and replies to `get` with every consent key
+  const script = [
+    `(function(){`,
+    `  var allowed=${json(options.allowedOrigins)};`,
+    `  var keys=${json(HUB_KEYS)};`,
+    `  var attrs=${json(attributes)};`,
+    `  function ok(o){`,
+    `    for(var i=0;i<allowed.length;i++){`,
+    `      var a=allowed[i],w=a.indexOf('*.');`,
+    `      if(a===o)return true;`,
+    `      if(w>0){var s=a.slice(0,w),x=a.slice(w+1);`,
+    `        if(o.indexOf(s)===0&&o.length>s.length+x.length&&o.slice(-x.length)===x&&o.slice(s.length).indexOf('/')<0)return true;}`,
+    `    }`,
+    `    return false;`,
+    `  }`,
+    `  function get(k){var m=document.cookie.match(new RegExp('(?:^|; )'+k+'=([^;]*)'));return m?decodeURIComponent(m[1]):null;}`,
+    `  function put(k,v){document.cookie=k+'='+(v===null?'':encodeURIComponent(v))+attrs+'; Max-Age='+(v===null?0:${maxAge});}`,
+    `  put('loi25-consent-probe','1');`,
+    `  var available=get('loi25-consent-probe')==='1';`,
+    `  put('loi25-consent-probe',null);`,
+    `  window.addEventListener('message',function(e){`,
+    `    var d=e.data;`,
+    `    if(!d||d.loi25Hub!==1||!ok(e.origin)||!e.source)return;`,
+    `    if(d.action==='set'&&available){`,
+    `      for(var k in d.values){if(keys.indexOf(k)>=0)put(k,d.values[k]);}`,
+    `      return;`,
+    `    }`,
+    `    if(d.action!=='get')return;`,
+    `    var v={};`,
+    `    for(var i=0;i<keys.length;i++)v[keys[i]]=get(keys[i]);`,
+    `    e.source.postMessage({loi25Hub:1,available:available,values:v},e.origin);`,
+    `  });`,
+    `})();`,
+  ].join('\n');
+
+  return [
+    '<!doctype html>',
+    '<html><head><meta charset="utf-8"><meta name="robots" content="noindex">',
+    `<script>${script}</script>`,
+    '</head><body></body></html>',
+  ].join('\n');
+}
@@ -0,0 +1,199 @@
+import type {
+  ConsentCategories,
+  ConsentLogger,
+  ConsentMethod,
+  ConsentRecord,
+  ConsentStorage,
+  ConsentVendors,
+  BrowserSignal,
+} from './types';
+import { LOG_QUEUE_KEY } from './defaults';
+import { defaultStorage } from './storage';
+
+// ─── Types ───
+
+/** Options for `createBeaconLogger()`. */
+export interface BeaconLoggerOptions {
+  /** URL that receives each record as a JSON `POST` body. */
+  endpoint: string;
+  /**
+   * Extra request headers. When set, `fetch` is always used because
+   * `navigator.sendBeacon` cannot send headers.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Attempts per record before it is left in the queue for the next page
+   * load or `online` event.
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * Storage key for the offline queue.
+   * @default 'loi25-consent-queue'
+   */
+  queueKey?: string;
+  /**
+   * Where the offline queue is kept.
+   * @default createLocalStorage()
+   */
+  storage?: ConsentStorage;
+}
+
+// ─── Record ───
+
+function randomId(): string {
+  const c = typeof crypto !== 'undefined' ? crypto : undefined;
+  if (c?.randomUUID) return c.randomUUID();
+  const bytes = new Uint8Array(16);
+  if (c?.getRandomValues) {
+    c.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Builds the proof-of-consent record for one decision. */
+export function createConsentRecord(
+  categories: ConsentCategories,
+  details: {
+    method: ConsentMethod;
+    language: string;
+    policyVersion?: string;
+    browserSignal?: BrowserSignal | null;
+    tcString?: string;
+    gppString?: string;
+    vendors?: ConsentVendors;
+  },
+): ConsentRecord {
+  const ids = Object.keys(categories);
+  return {
+    consentId: randomId(),
+    timestamp: new Date().toISOString(),
+    granted: ids.filter((id) => categories[id]),
+    denied: ids.filter((id) => !categories[id]),
+    language: details.language,
+    policyVersion: details.policyVersion,
+    method: details.method,
+    browserSignal: details.browserSignal ?? undefined,
+    tcString: details.tcString,
+    gppString: details.gppString,
+    vendors:
+      details.vendors && Object.keys(details.vendors).length > 0
+        ? details.vendors
+        : undefined,
+    url: typeof location !== 'undefined' ? location.href : undefined,
+  };
+}
+
+// ─── Queue helpers ───
+
+function readQueue(storage: ConsentStorage, key: string): ConsentRecord[] {
+  try {
+    const raw = storage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : [];
+    return Array.isArray(parsed) ? (parsed as ConsentRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(storage: ConsentStorage, key: string, queue: ConsentRecord[]): void {
+  if (queue.length) storage.setItem(key, JSON.stringify(queue));
+  else storage.removeItem(key);
+}
+
+const wait = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+// ─── Beacon / fetch transport ───
+
+/**
+ * Creates a `ConsentLogger` that posts each record to `endpoint`.
+ *
+ * Records are first written to an offline queue in storage, then sent
+ * with `navigator.sendBeacon` (or `fetch` with `keepalive` when headers are
+ * needed). Failed sends are retried with exponential backoff; records that
+ * still fail stay queued and are retried on the next page load or when the
+ * browser comes back online.
+ *
+ * @example
+ * ```tsx
+ * const logger = createBeaconLogger({ endpoint: '/api/consent' });
+ *
+ * <CookieConsent consentLogger={logger} policyVersion="2025-01" />
+ * ```
+ */
+export function createBeaconLogger(options: BeaconLoggerOptions): ConsentLogger {
+  const {
+    endpoint,
+    headers,
+    retries = 3,
+    queueKey = LOG_QUEUE_KEY,
+    storage = defaultStorage,
+  } = options;
+  let flushing: Promise<void> | null = null;
+  let listening = false;
+
+  async function send(record: ConsentRecord): Promise<boolean> {
+    const body = JSON.stringify(record);
+    if (!headers && typeof navigator !== 'undefined' && navigator.sendBeacon) {
+      try {
+        if (navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }))) {
+          return true;
+        }
+      } catch {
+        // Fall back to fetch
+      }
+    }
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+        keepalive: true,
+      });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async function drain(): Promise<void> {
+    for (const record of readQueue(storage, queueKey)) {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+      let sent = false;
+      for (let attempt = 0; attempt < retries && !sent; attempt++) {
+        if (attempt > 0) await wait(500 * 2 ** (attempt - 1));
+        sent = await send(record);
+      }
+      if (!sent) return;
+      writeQueue(
+        storage,
+        queueKey,
+        readQueue(storage, queueKey).filter((r) => r.consentId !== record.consentId),
+      );
+    }
+  }
+
+  function flush(): Promise<void> {
+    if (!listening && typeof window !== 'undefined') {
+      listening = true;
+      window.addEventListener('online', () => void flush());
+    }
+    if (!flushing) {
+      flushing = drain().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  }
+
+  return {
+    log(record) {
+      writeQueue(storage, queueKey, [...readQueue(storage, queueKey), record]);
+      // A flush already in progress would miss this record
+      return (flushing ?? Promise.resolve()).then(flush);
+    },
+    flush,
+  };
+}
@@ -0,0 +1,258 @@
+import type {
+  ConsentCategories,
+  ConsentCategory,
+  ConsentCategoryDefinition,
+  ConsentLevel,
+  ConsentStorage,
+  ConsentVendor,
+  ConsentVendors,
+} from './types';
+import {
+  STORAGE_KEY,
+  STORAGE_VERSION_KEY,
+  STORAGE_TC_STRING_KEY,
+  STORAGE_GPP_STRING_KEY,
+  CONSENT_CHANGE_EVENT,
+  DEFAULT_EXPIRY_DAYS,
+} from './defaults';
+import { getCategoryIds, resolveCategories } from './categories';
+import {
+  defaultStorage,
+  isExpired,
+  isCurrentVersion,
+  readStoredCategories,
+  readStoredVendors,
+  writeStoredConsent,
+  clearStoredConsent,
+} from './storage';
+import { getVendors, isVendorAllowed, resolveVendorStates } from './vendors';
+
+// ─── Types ───
+
+/** Options for `createConsentManager()`. Match them to `<CookieConsent>`. */
+export interface ConsentManagerOptions {
+  /** Number of days before consent expires. @default 365 */
+  expiryDays?: number;
+  /** Current policy version. Stored consent for another version is ignored. */
+  policyVersion?: string;
+  /** Where consent is persisted. @default createLocalStorage() */
+  storage?: ConsentStorage;
+  /**
+   * Custom categories. Without them, `set()` keeps the category ids
+   * already in storage.
+   */
+  categories?: ConsentCategoryDefinition[];
+  /** Vendors, in addition to the ones added with `registerVendor()`. */
+  vendors?: ConsentVendor[];
+}
+
+/** Called with the current choice, or `null`, whenever it changes. */
+export type ConsentListener = (categories: ConsentCategories | null) => void;
+
+/** Framework-agnostic consent store returned by `createConsentManager()`. */
+export interface ConsentManager {
+  /** Current per-category choice, or `null` if none is valid. */
+  get: () => ConsentCategories | null;
+  /** Whether a category is granted. `necessary` always is. */
+  isGranted: (category: ConsentCategory) => boolean;
+  /** Current per-vendor states, or `null` if no choice is valid. */
+  getVendors: () => ConsentVendors | null;
+  /** Whether a vendor is allowed: its category is granted and it wasn't refused. */
+  isVendorAllowed: (id: string) => boolean;
+  /**
+   * Stores a choice, as a shorthand level or a per-category map. Unlisted
+   * categories are denied. `vendors` sets vendor states; a category granted
+   * anew then allows only the vendors named in it. With a banner mounted,
+   * the choice goes through it like a click (Consent Mode, adapters, proof
+   * of consent).
+   */
+  set: (
+    choice: ConsentLevel | Partial<ConsentCategories>,
+    vendors?: Partial<ConsentVendors>,
+  ) => void;
+  /** Clears the stored choice so the banner appears again. */
+  reset: () => void;
+  /** Listens for changes from any tab, the banner or `set()`. Returns an unsubscribe function. */
+  subscribe: (listener: ConsentListener) => () => void;
+  /** Opens the banner's preferences panel. Does nothing without a mounted banner. */
+  openPreferences: () => void;
+}
+
+/**
+ * A command for the `window.Loi25` queue: a callback receiving the
+ * manager, or a method name followed by its arguments.
+ */
+export type ConsentCommand =
+  | ((manager: ConsentManager) => void)
+  | [keyof ConsentManager, ...unknown[]];
+
+/** `window.Loi25` once the manager is exposed. */
+export interface ConsentManagerGlobal extends ConsentManager {
+  /** Runs commands right away. Before loading, `Loi25` is a plain array. */
+  push: (...commands: ConsentCommand[]) => void;
+}
+
+/** What a mounted banner takes over from the manager. */
+interface ConsentHandler {
+  set: (
+    choice: ConsentLevel | Partial<ConsentCategories>,
+    vendors?: Partial<ConsentVendors>,
+  ) => void;
+  openPreferences: () => void;
+}
+
+// ─── Banner registration ───
+
+let activeHandler: ConsentHandler | null = null;
+
+/**
+ * Routes `set()` and `openPreferences()` from every manager to a mounted
+ * `<CookieConsentProvider>`. Returns a function that unregisters it.
+ */
+export function registerConsentHandler(handler: ConsentHandler): () => void {
+  activeHandler = handler;
+  return () => {
+    if (activeHandler === handler) activeHandler = null;
+  };
+}
+
+// ─── Manager ───
+
+/**
+ * Creates a consent store that works outside React: legacy pages, GTM
+ * custom HTML tags, embedded widgets. `<CookieConsent>` and `useConsent()`
+ * are built on it.
+ *
+ * @example
+ * ```ts
+ * const consent = createConsentManager({ policyVersion: '2025-01' });
+ *
+ * if (consent.isGranted('analytics')) loadAnalytics();
+ * consent.subscribe((categories) => {
+ *   if (categories?.analytics) loadAnalytics();
+ * });
+ * document.querySelector('#cookie-settings')
+ *   ?.addEventListener('click', consent.openPreferences);
+ * ```
+ */
+export function createConsentManager(options: ConsentManagerOptions = {}): ConsentManager {
+  const storage = options.storage ?? defaultStorage;
+  const expiryDays = options.expiryDays ?? DEFAULT_EXPIRY_DAYS;
+  const policyVersion = options.policyVersion;
+
+  const get = (): ConsentCategories | null => {
+    const stored = storage.getItem(STORAGE_KEY);
+    if (stored && !isExpired(storage, expiryDays)) {
+      // Consent to an older policy doesn't count, but is kept so the banner
+      // can say what changed since then.
+      if (!isCurrentVersion(storage, policyVersion)) return null;
+      return readStoredCategories(storage);
+    }
+    // Expired — clean up
+    if (stored) clearStoredConsent(storage);
+    return null;
+  };
+
+  // Custom categories are declared on <CookieConsent>, so without them the
+  // ids already present in storage are kept when expanding a shorthand level.
+  const getKnownCategoryIds = (): string[] => {
+    if (options.categories) return getCategoryIds(options.categories);
+    const stored = readStoredCategories(storage);
+    return getCategoryIds(Object.keys(stored ?? {}).map((id) => ({ id })));
+  };
+
+  const getVendorStates = (): ConsentVendors | null =>
+    get() ? readStoredVendors(storage) : null;
+
+  return {
+    get,
+    isGranted(category) {
+      return category === 'necessary' || get()?.[category] === true;
+    },
+    getVendors: getVendorStates,
+    isVendorAllowed(id) {
+      return isVendorAllowed(id, get(), getVendorStates(), getVendors(options.vendors));
+    },
+    set(choice, vendors) {
+      if (activeHandler) {
+        activeHandler.set(choice, vendors);
+        return;
+      }
+      const next = resolveCategories(choice, getKnownCategoryIds());
+      writeStoredConsent(storage, next, {
+        // Without a version of its own, keep the one the banner stored
+        policyVersion:
+          policyVersion ?? storage.getItem(STORAGE_VERSION_KEY) ?? undefined,
+        vendors: resolveVendorStates(
+          getVendors(options.vendors),
+          next,
+          { categories: get(), vendors: getVendorStates() },
+          vendors,
+        ),
+      });
+      // No longer match the choice; <CookieConsent> rebuilds them
+      storage.removeItem(STORAGE_TC_STRING_KEY);
+      storage.removeItem(STORAGE_GPP_STRING_KEY);
+      window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
+    },
+    reset() {
+      clearStoredConsent(storage);
+      window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
+    },
+    subscribe(listener) {
+      const handler = () => listener(get());
+      window.addEventListener('storage', handler);
+      window.addEventListener(CONSENT_CHANGE_EVENT, handler);
+      return () => {
+        window.removeEventListener('storage', handler);
+        window.removeEventListener(CONSENT_CHANGE_EVENT, handler);
+      };
+    },
+    openPreferences() {
+      activeHandler?.openPreferences();
+    },
+  };
+}
+
+// ─── Window global ───
+
+/**
+ * Exposes a manager as `window.Loi25` (or `name`). Commands pushed before
+ * it loads are run first, so scripts can queue calls safely:
+ *
+ * ```js
+ * window.Loi25 = window.Loi25 || [];
+ * Loi25.push(['set', 'necessary']);
+ * Loi25.push(function (consent) { console.log(consent.get()); });
+ * ```
+ *
+ * Returns a function that removes the global.
+ */
+export function exposeConsentManager(manager: ConsentManager, name = 'Loi25'): () => void {
+  const w = window as unknown as Record<string, unknown>;
+  const queued = Array.isArray(w[name]) ? (w[name] as ConsentCommand[]) : [];
+
+  const run = (command: ConsentCommand) => {
+    try {
+      if (typeof command === 'function') {
+        command(manager);
+      } else {
+        const [method, ...args] = command;
+        (manager[method] as (...params: unknown[]) => unknown)(...args);
+      }
+    } catch {
+      // A broken command must not block the rest of the queue
+    }
+  };
+
+  const api: ConsentManagerGlobal = {
+    ...manager,
+    push: (...commands) => commands.forEach(run),
+  };
+  w[name] = api;
+  queued.forEach(run);
+
+  return () => {
+    if (w[name] === api) delete w[name];
+  };
+}
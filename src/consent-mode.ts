@@ -1,4 +1,22 @@
-import { STORAGE_KEY, STORAGE_DATE_KEY, DEFAULT_EXPIRY_DAYS } from './defaults';
+import {
+  STORAGE_KEY,
+  STORAGE_DATE_KEY,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_VERSION_KEY,
+  DEFAULT_EXPIRY_DAYS,
+} from './defaults';
+import type {
+  ConsentStorage,
+  DataLayerEventNames,
+  GoogleConsentMapping,
+  Jurisdiction,
+} from './types';
+import { defaultStorage } from './storage';
+import { resolveGoogleConsentMapping, getGoogleConsentDefaults } from './google-consent';
+import { resolveDataLayerEvents } from './datalayer';
+import { getJurisdictionConsentDefaults } from './jurisdictions';
+import { getTcfStubScript } from './tcf';
+import { getGppStubScript } from './gpp';
 
 // ─── Types ───
 
@@ -29,6 +47,12 @@ export interface ConsentModeDefaults {
    * Example: `['CA-QC']` for Quebec only.
    */
   region?: string[];
+  /**
+   * Also set a region-scoped default per jurisdiction, granting what its
+   * `defaults` grant (e.g. `US-CA` under CCPA). Must match `jurisdictions`
+   * on `<CookieConsent>`.
+   */
+  jurisdictions?: Jurisdiction[];
   /**
    * When `true` and `ad_storage` is denied, ad click identifiers in pings
    * are redacted and requests go through a cookieless domain.
@@ -47,6 +71,45 @@ export interface ConsentModeDefaults {
    * @default 365
    */
   expiry_days?: number;
+  /**
+   * Current policy version. Stored consent for another version is ignored.
+   * Must match the `policyVersion` prop on `<CookieConsent>`.
+   */
+  policy_version?: string;
+  /**
+   * Storage adapter consent is read from on returning visits. Must match
+   * the `storage` prop on `<CookieConsent>`. Adapters without an
+   * `inlineGetter` (e.g. memory) skip the returning-visitor update.
+   * @default createLocalStorage()
+   */
+  storage?: ConsentStorage;
+  /**
+   * Category that grants each consent type, for the defaults and the
+   * returning-visitor update. Must match `googleConsentMapping` on
+   * `<CookieConsent>`. Explicit defaults above take precedence.
+   * @default DEFAULT_GOOGLE_CONSENT_MAPPING
+   */
+  consent_mapping?: GoogleConsentMapping;
+  /**
+   * Push the `returning` event to `dataLayer` when a stored choice is
+   * found, after the consent update. Only `returning` is used here; the
+   * other events are pushed by `<CookieConsent dataLayerEvents>`.
+   * @default false
+   */
+  datalayer_events?: boolean | DataLayerEventNames;
+  /**
+   * Also define the IAB TCF v2.2 `__tcfapi` stub, for use with the `tcf`
+   * prop on `<CookieConsent>`. Pass `{ gdpr_applies: false }` to report
+   * that GDPR does not apply while the stub answers `ping`.
+   * @default false
+   */
+  tcf?: boolean | { gdpr_applies?: boolean };
+  /**
+   * Also define the IAB GPP `__gpp` stub, for use with the `gpp` prop on
+   * `<CookieConsent>`.
+   * @default false
+   */
+  gpp?: boolean;
 }
 
 // ─── Script Generator ───
@@ -56,9 +119,10 @@ export interface ConsentModeDefaults {
  * defaults **synchronously**. Place this in `<head>` **before** the Google tag
  * (gtag.js or GTM) so that consent defaults are visible when tags initialize.
  *
- * On returning visits where the user previously accepted all cookies, the
- * script also calls `consent('update', ...)` immediately so tags fire with
- * full measurement data without waiting for the React banner to hydrate.
+ * On returning visits where the user previously accepted analytics or
+ * marketing cookies, the script also calls `consent('update', ...)`
+ * immediately so tags fire with the granted measurement without waiting for
+ * the React banner to hydrate.
  *
  * @example
  * ```tsx
@@ -85,18 +149,25 @@ export interface ConsentModeDefaults {
 export function getConsentModeScript(options?: ConsentModeDefaults): string {
   const opts = options ?? {};
 
-  const adStorage = opts.ad_storage ?? 'denied';
-  const adUserData = opts.ad_user_data ?? 'denied';
-  const adPersonalization = opts.ad_personalization ?? 'denied';
-  const analyticsStorage = opts.analytics_storage ?? 'denied';
-  const functionalityStorage = opts.functionality_storage ?? 'granted';
-  const personalizationStorage = opts.personalization_storage ?? 'granted';
-  const securityStorage = opts.security_storage ?? 'granted';
+  const mapping = resolveGoogleConsentMapping(opts.consent_mapping);
+  const defaults = getGoogleConsentDefaults(mapping);
+  const adStorage = opts.ad_storage ?? defaults.ad_storage;
+  const adUserData = opts.ad_user_data ?? defaults.ad_user_data;
+  const adPersonalization = opts.ad_personalization ?? defaults.ad_personalization;
+  const analyticsStorage = opts.analytics_storage ?? defaults.analytics_storage;
+  const functionalityStorage = opts.functionality_storage ?? defaults.functionality_storage;
+  const personalizationStorage =
+    opts.personalization_storage ?? defaults.personalization_storage;
+  const securityStorage = opts.security_storage ?? defaults.security_storage;
   const waitForUpdate = opts.wait_for_update ?? 500;
   const region = opts.region;
   const adsDataRedaction = opts.ads_data_redaction ?? false;
   const urlPassthrough = opts.url_passthrough ?? false;
   const expiryDays = opts.expiry_days ?? DEFAULT_EXPIRY_DAYS;
+  const policyVersion = opts.policy_version;
+  const getter = (opts.storage ?? defaultStorage).inlineGetter;
+  const tcf = opts.tcf;
+  const returningEvent = resolveDataLayerEvents(opts.datalayer_events)?.returning;
 
   // Build the consent default object as a JSON-safe string
   const defaultObj: Record<string, unknown> = {
@@ -116,6 +187,18 @@ export function getConsentModeScript(options?: ConsentModeDefaults): string {
 
   const defaultJson = JSON.stringify(defaultObj);
 
+  // Region-scoped defaults; Google applies the most specific region
+  const jurisdictionDefaults = getJurisdictionConsentDefaults(
+    opts.jurisdictions ?? [],
+    mapping,
+  ).map(
+    (defaults) =>
+      `gtag('consent','default',${JSON.stringify({
+        ...defaults,
+        wait_for_update: waitForUpdate,
+      })});`,
+  );
+
   // Build optional gtag('set', ...) calls
   const setCalls: string[] = [];
   if (adsDataRedaction) {
@@ -125,39 +208,71 @@ export function getConsentModeScript(options?: ConsentModeDefaults): string {
     setCalls.push("gtag('set','url_passthrough',true);");
   }
 
+  // GTM event for returning visitors, sent after their consent update
+  const returningPush =
+    `dataLayer.push({event:${JSON.stringify(returningEvent)},` +
+    `consent:k,level:c,policyVersion:${JSON.stringify(policyVersion ?? null)}});`;
+
   // The inline script:
   // 1. Defines dataLayer + gtag
   // 2. Sets consent defaults (always denied for tracking types)
   // 3. Optionally sets ads_data_redaction / url_passthrough
-  // 4. Checks localStorage for returning users and calls consent('update')
+  // 4. Checks stored consent for returning users and calls consent('update')
+  // 5. Optionally pushes the returning-visitor dataLayer event
+  const returningVisitor = [
+    `(function(){`,
+    `  try{`,
+    `    var g=${getter};`,
+    `    var c=g(${JSON.stringify(STORAGE_KEY)});`,
+    `    var d=g(${JSON.stringify(STORAGE_DATE_KEY)});`,
+    `    if(c&&d${
+      policyVersion
+        ? `&&g(${JSON.stringify(STORAGE_VERSION_KEY)})===${JSON.stringify(policyVersion)}`
+        : ''
+    }){`,
+    `      var age=(Date.now()-parseInt(d,10))/(1000*60*60*24);`,
+    `      if(age<=${expiryDays}){`,
+    `        var k={};`,
+    `        try{k=JSON.parse(g(${JSON.stringify(STORAGE_CATEGORIES_KEY)})||'{}')||{};}catch(e){}`,
+    `        if(c!=='necessary'){`,
+    `          var all=c==='all',m=${JSON.stringify(mapping)},u={};`,
+    `          for(var t in m){`,
+    `            u[t]=all||m[t]==='necessary'||k[m[t]]===true?'granted':'denied';`,
+    `          }`,
+    `          gtag('consent','update',u);`,
+    `        }`,
+    ...(returningEvent ? [`        ${returningPush}`] : []),
+    `      }`,
+    `    }`,
+    `  }catch(e){}`,
+    `})();`,
+  ];
+
   return [
+    // IAB TCF v2.2 API stub, queuing calls until <CookieConsent> loads
+    ...(tcf
+      ? [
+          getTcfStubScript({
+            gdprApplies: typeof tcf === 'object' ? tcf.gdpr_applies : undefined,
+          }),
+        ]
+      : []),
+
+    // IAB GPP API stub
+    ...(opts.gpp ? [getGppStubScript()] : []),
+
     // Define dataLayer and gtag
     `window.dataLayer=window.dataLayer||[];`,
     `function gtag(){dataLayer.push(arguments);}`,
 
-    // Set consent defaults
+    // Set consent defaults, per jurisdiction then everywhere else
+    ...jurisdictionDefaults,
     `gtag('consent','default',${defaultJson});`,
 
     // Optional set calls
     ...setCalls,
 
     // Check for returning user with stored consent
-    `(function(){`,
-    `  try{`,
-    `    var c=localStorage.getItem(${JSON.stringify(STORAGE_KEY)});`,
-    `    var d=localStorage.getItem(${JSON.stringify(STORAGE_DATE_KEY)});`,
-    `    if(c&&d){`,
-    `      var age=(Date.now()-parseInt(d,10))/(1000*60*60*24);`,
-    `      if(age<=${expiryDays}&&c==='all'){`,
-    `        gtag('consent','update',{`,
-    `          'ad_storage':'granted',`,
-    `          'ad_user_data':'granted',`,
-    `          'ad_personalization':'granted',`,
-    `          'analytics_storage':'granted'`,
-    `        });`,
-    `      }`,
-    `    }`,
-    `  }catch(e){}`,
-    `})();`,
+    ...(getter ? returningVisitor : []),
   ].join('\n');
 }
@@ -0,0 +1,180 @@
+import type { CookieDefinition } from './types';
+
+// ─── Built-in catalog ───
+
+/** Vendors covered by the built-in cookie catalog. */
+export type CatalogVendor =
+  | 'ga4'
+  | 'google-ads'
+  | 'meta-pixel'
+  | 'hotjar'
+  | 'linkedin'
+  | 'tiktok'
+  | 'clarity';
+
+/**
+ * Cookies set by common vendors with their default configuration. Check
+ * them against your own setup — durations and names can change with the
+ * vendor's settings.
+ */
+export const COOKIE_CATALOG: Record<CatalogVendor, CookieDefinition[]> = {
+  ga4: [
+    {
+      name: '_ga',
+      provider: 'Google',
+      category: 'analytics',
+      purpose: {
+        fr: 'Distingue les visiteurs pour Google Analytics.',
+        en: 'Distinguishes visitors for Google Analytics.',
+      },
+      duration: { fr: '2 ans', en: '2 years' },
+    },
+    {
+      name: '_ga_<container-id>',
+      provider: 'Google',
+      category: 'analytics',
+      purpose: {
+        fr: 'Conserve l’état de la session Google Analytics.',
+        en: 'Persists the Google Analytics session state.',
+      },
+      duration: { fr: '2 ans', en: '2 years' },
+    },
+  ],
+  'google-ads': [
+    {
+      name: '_gcl_au',
+      provider: 'Google',
+      category: 'marketing',
+      purpose: {
+        fr: 'Associe les clics publicitaires aux conversions (Conversion Linker).',
+        en: 'Links ad clicks to conversions (Conversion Linker).',
+      },
+      duration: { fr: '90 jours', en: '90 days' },
+    },
+  ],
+  'meta-pixel': [
+    {
+      name: '_fbp',
+      provider: 'Meta',
+      category: 'marketing',
+      purpose: {
+        fr: 'Identifie le navigateur pour la mesure et le ciblage publicitaires de Meta.',
+        en: 'Identifies the browser for Meta ad measurement and targeting.',
+      },
+      duration: { fr: '90 jours', en: '90 days' },
+    },
+    {
+      name: '_fbc',
+      provider: 'Meta',
+      category: 'marketing',
+      purpose: {
+        fr: 'Conserve le dernier clic sur une publicité Meta.',
+        en: 'Stores the last click on a Meta ad.',
+      },
+      duration: { fr: '90 jours', en: '90 days' },
+    },
+  ],
+  hotjar: [
+    {
+      name: '_hjSessionUser_<site-id>',
+      provider: 'Hotjar',
+      category: 'analytics',
+      purpose: {
+        fr: 'Attribue un identifiant unique au visiteur pour Hotjar.',
+        en: 'Assigns the visitor a unique Hotjar id.',
+      },
+      duration: { fr: '1 an', en: '1 year' },
+    },
+    {
+      name: '_hjSession_<site-id>',
+      provider: 'Hotjar',
+      category: 'analytics',
+      purpose: {
+        fr: 'Regroupe les données de la session en cours.',
+        en: 'Groups data for the current session.',
+      },
+      duration: { fr: '30 minutes', en: '30 minutes' },
+    },
+  ],
+  linkedin: [
+    {
+      name: 'li_fat_id',
+      provider: 'LinkedIn',
+      category: 'marketing',
+      purpose: {
+        fr: 'Attribue les conversions aux campagnes LinkedIn.',
+        en: 'Attributes conversions to LinkedIn campaigns.',
+      },
+      duration: { fr: '30 jours', en: '30 days' },
+    },
+    {
+      name: 'li_sugr',
+      provider: 'LinkedIn',
+      category: 'marketing',
+      purpose: {
+        fr: 'Identifiant probabiliste du navigateur pour LinkedIn Insight.',
+        en: 'Probabilistic browser id for LinkedIn Insight.',
+      },
+      duration: { fr: '90 jours', en: '90 days' },
+    },
+  ],
+  tiktok: [
+    {
+      name: '_ttp',
+      provider: 'TikTok',
+      category: 'marketing',
+      purpose: {
+        fr: 'Mesure et améliore les campagnes publicitaires TikTok.',
+        en: 'Measures and improves TikTok ad campaigns.',
+      },
+      duration: { fr: '13 mois', en: '13 months' },
+    },
+    {
+      name: '_tt_enable_cookie',
+      provider: 'TikTok',
+      category: 'marketing',
+      purpose: {
+        fr: 'Vérifie si le navigateur accepte les témoins TikTok.',
+        en: 'Checks whether the browser accepts TikTok cookies.',
+      },
+      duration: { fr: '13 mois', en: '13 months' },
+    },
+  ],
+  clarity: [
+    {
+      name: '_clck',
+      provider: 'Microsoft',
+      category: 'analytics',
+      purpose: {
+        fr: 'Conserve l’identifiant Clarity du visiteur.',
+        en: 'Stores the visitor’s Clarity id.',
+      },
+      duration: { fr: '1 an', en: '1 year' },
+    },
+    {
+      name: '_clsk',
+      provider: 'Microsoft',
+      category: 'analytics',
+      purpose: {
+        fr: 'Relie les pages vues d’une même session Clarity.',
+        en: 'Links page views within one Clarity session.',
+      },
+      duration: { fr: '1 jour', en: '1 day' },
+    },
+  ],
+};
+
+/**
+ * Returns the catalog cookies for the given vendors, ready to pass to
+ * `<CookieDeclaration cookies>` alongside your own entries.
+ *
+ * @example
+ * ```tsx
+ * const cookies = [...getCatalogCookies('ga4', 'meta-pixel'), ...myCookies];
+ * ```
+ */
+export function getCatalogCookies(...vendors: CatalogVendor[]): CookieDefinition[] {
+  const result: CookieDefinition[] = [];
+  vendors.forEach((v) => result.push(...COOKIE_CATALOG[v]));
+  return result;
+}
@@ -0,0 +1,172 @@
+import type {
+  CleanupPatterns,
+  ConsentCategory,
+  ConsentVendor,
+  CookiePattern,
+} from './types';
+
+// ─── Built-in registry ───
+
+/**
+ * Known tracker cookie and web storage key patterns, per category. Strings
+ * match a name exactly; regular expressions are tested against it.
+ */
+export const TRACKER_PATTERNS: CleanupPatterns = {
+  analytics: [
+    // Google Analytics
+    '_ga',
+    /^_ga_/,
+    '_gid',
+    /^_gat/,
+    '__utma',
+    '__utmb',
+    '__utmc',
+    '__utmt',
+    '__utmz',
+    // Hotjar (not the opt-out cookie its adapter sets)
+    /^_hj(?!OptOut)/,
+    // Microsoft Clarity
+    '_clck',
+    '_clsk',
+    'CLID',
+    // Matomo
+    /^_pk_/,
+    // Mixpanel / Amplitude (the key prefix in each name) / Segment
+    /^mp_.+_mixpanel$/,
+    /^amp_[0-9a-f]{6}/,
+    /^AMP_(MKTG_)?[0-9a-f]{10}/,
+    'ajs_anonymous_id',
+    'ajs_user_id',
+  ],
+  marketing: [
+    // Google Ads / Floodlight
+    /^_gcl_/,
+    '_gac',
+    /^_gac_/,
+    // Meta Pixel
+    '_fbp',
+    '_fbc',
+    // Microsoft UET
+    '_uetsid',
+    '_uetvid',
+    '_uetmsclkid',
+    // TikTok
+    '_ttp',
+    /^_tt_/,
+    'tt_sessionId',
+    // LinkedIn Insight
+    'li_fat_id',
+    'li_sugr',
+    // Pinterest / Snap / Reddit
+    /^_pin_/,
+    '_pinterest_ct_ua',
+    '_scid',
+    '_sctr',
+    '_rdt_uuid',
+  ],
+};
+
+// ─── Helpers ───
+
+function matches(name: string, patterns: CookiePattern[]): boolean {
+  return patterns.some((p) => (typeof p === 'string' ? p === name : p.test(name)));
+}
+
+function collectPatterns(
+  categories: ConsentCategory[],
+  custom?: CleanupPatterns,
+): CookiePattern[] {
+  const patterns: CookiePattern[] = [];
+  categories.forEach((c) => {
+    patterns.push(...(TRACKER_PATTERNS[c] ?? []), ...(custom?.[c] ?? []));
+  });
+  return patterns;
+}
+
+// Cookies can only be removed with the exact Domain and Path they were set
+// with, so every candidate is tried: host-only and each parent domain, the
+// current path and each ancestor path.
+function deleteCookie(name: string): void {
+  const parts = location.hostname.split('.');
+  const domains: (string | undefined)[] = [undefined];
+  for (let i = 0; i < parts.length - 1; i++) {
+    domains.push(parts.slice(i).join('.'));
+  }
+  const segments = location.pathname.split('/').filter(Boolean);
+  const paths = ['/'];
+  for (let i = 1; i <= segments.length; i++) {
+    paths.push(`/${segments.slice(0, i).join('/')}`);
+  }
+  domains.forEach((domain) => {
+    paths.forEach((path) => {
+      document.cookie = `${name}=; Max-Age=0; Path=${path}${domain ? `; Domain=${domain}` : ''}`;
+    });
+  });
+}
+
+function purgeStorage(storage: Storage, patterns: CookiePattern[]): void {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key && matches(key, patterns)) keys.push(key);
+  }
+  keys.forEach((key) => storage.removeItem(key));
+}
+
+function purgePatterns(patterns: CookiePattern[]): void {
+  if (typeof document === 'undefined' || !patterns.length) return;
+
+  document.cookie
+    .split(';')
+    .map((c) => c.split('=')[0].trim())
+    .filter((name) => name && matches(name, patterns))
+    .forEach(deleteCookie);
+
+  try {
+    purgeStorage(localStorage, patterns);
+    purgeStorage(sessionStorage, patterns);
+  } catch {
+    // Silently fail if storage is unavailable
+  }
+}
+
+// Declared names may hold placeholders, e.g. `_ga_<container-id>`
+function toPattern(name: string): CookiePattern {
+  if (!/<[^>]+>/.test(name)) return name;
+  const source = name
+    .split(/<[^>]+>/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+');
+  return new RegExp(`^${source}$`);
+}
+
+// ─── Public API ───
+
+/**
+ * Deletes tracker cookies and localStorage / sessionStorage entries for the
+ * given categories, using the built-in registry plus `custom` patterns.
+ * Called automatically by `<CookieConsent>` when a category is withdrawn.
+ *
+ * Only cookies readable from JavaScript can be removed; `HttpOnly` cookies
+ * and third-party cookies on other domains are out of reach.
+ */
+export function purgeTrackingData(
+  categories: ConsentCategory[],
+  custom?: CleanupPatterns,
+): void {
+  purgePatterns(collectPatterns(categories, custom));
+}
+
+/**
+ * Deletes the cookies and storage entries declared in each vendor's
+ * `cookies`. Called automatically by `<CookieConsent>` when a vendor is
+ * refused while its category stays granted.
+ */
+export function purgeVendorData(vendors: ConsentVendor[]): void {
+  purgePatterns(
+    vendors.reduce<CookiePattern[]>(
+      (acc, vendor) => acc.concat((vendor.cookies ?? []).map((c) => toPattern(c.name))),
+      [],
+    ),
+  );
+}
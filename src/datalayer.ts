@@ -0,0 +1,28 @@
+import type { DataLayerEventNames } from './types';
+import { DEFAULT_DATALAYER_EVENTS } from './defaults';
+
+// ─── Google Tag Manager dataLayer events ───
+
+/** Event names for a `dataLayerEvents` option, or `null` when it's off. */
+export function resolveDataLayerEvents(
+  option?: boolean | DataLayerEventNames,
+): Required<DataLayerEventNames> | null {
+  if (!option) return null;
+  return option === true
+    ? { ...DEFAULT_DATALAYER_EVENTS }
+    : { ...DEFAULT_DATALAYER_EVENTS, ...option };
+}
+
+/**
+ * Pushes `{ event, ...payload }` to `window.dataLayer`, creating it if
+ * needed. Does nothing when the event name is `false`.
+ */
+export function pushDataLayerEvent(
+  event: string | false,
+  payload: Record<string, unknown>,
+): void {
+  if (!event) return;
+  const w = window as unknown as { dataLayer?: unknown[] };
+  w.dataLayer = w.dataLayer || [];
+  w.dataLayer.push({ event, ...payload });
+}
@@ -1,12 +1,55 @@
-/** localStorage key for consent level ('all' | 'necessary'). */
+import type { DataLayerEventNames, GoogleConsentMapping } from './types';
+
+/** Storage key for consent summary ('all' | 'necessary' | 'custom'). */
 export const STORAGE_KEY = 'loi25-consent';
 
-/** localStorage key for consent timestamp. */
+/** Storage key for consent timestamp. */
 export const STORAGE_DATE_KEY = 'loi25-consent-date';
 
+/** Storage key for per-category consent states (JSON). */
+export const STORAGE_CATEGORIES_KEY = 'loi25-consent-categories';
+
+/** Storage key for the policy version the visitor consented to. */
+export const STORAGE_VERSION_KEY = 'loi25-consent-version';
+
+/** Storage key for the id of the latest consent record. */
+export const STORAGE_ID_KEY = 'loi25-consent-id';
+
+/** Storage key for the IAB TCF v2.2 TC string. */
+export const STORAGE_TC_STRING_KEY = 'loi25-consent-tcstring';
+
+/** Storage key for the IAB GPP string. */
+export const STORAGE_GPP_STRING_KEY = 'loi25-consent-gppstring';
+
+/** Storage key for per-vendor consent states (JSON). */
+export const STORAGE_VENDORS_KEY = 'loi25-consent-vendors';
+
+/** Storage key for consent records waiting to be sent. */
+export const LOG_QUEUE_KEY = 'loi25-consent-queue';
+
+/** Built-in consent categories, in display order. */
+export const BUILT_IN_CATEGORIES = [
+  'necessary',
+  'functional',
+  'analytics',
+  'marketing',
+] as const;
+
+/** Attribute naming the consent category of a blocked `<script type="text/plain">`. */
+export const SCRIPT_CATEGORY_ATTRIBUTE = 'data-consent-category';
+
+/** Attribute naming the vendor of a blocked `<script type="text/plain">`. */
+export const SCRIPT_VENDOR_ATTRIBUTE = 'data-consent-vendor';
+
+/** Attribute set on a blocked script once a running copy was inserted after it. */
+export const SCRIPT_ACTIVATED_ATTRIBUTE = 'data-consent-activated';
+
 /** Custom event name dispatched when consent changes programmatically. */
 export const CONSENT_CHANGE_EVENT = 'loi25-consent-change';
 
+/** Locale used when none matches, and the last step of every fallback chain. */
+export const DEFAULT_LANGUAGE = 'fr';
+
 /** Default brand color (blue). */
 export const DEFAULT_BRAND_COLOR = '#1d4ed8';
 
@@ -16,6 +59,29 @@ export const DEFAULT_EXPIRY_DAYS = 365;
 /** Default wait_for_update value in milliseconds for Google Consent Mode v2. */
 export const DEFAULT_WAIT_FOR_UPDATE = 500;
 
+/**
+ * Default category for each Google Consent Mode v2 type: advertising types
+ * follow `marketing`, `analytics_storage` follows `analytics`, and the
+ * functional types are always granted.
+ */
+export const DEFAULT_GOOGLE_CONSENT_MAPPING: Required<GoogleConsentMapping> = {
+  ad_storage: 'marketing',
+  ad_user_data: 'marketing',
+  ad_personalization: 'marketing',
+  analytics_storage: 'analytics',
+  functionality_storage: 'necessary',
+  personalization_storage: 'necessary',
+  security_storage: 'necessary',
+};
+
+/** Default `dataLayer` event names for Google Tag Manager triggers. */
+export const DEFAULT_DATALAYER_EVENTS: Required<DataLayerEventNames> = {
+  update: 'loi25_consent_update',
+  initial: 'loi25_consent_initial',
+  bannerShown: 'loi25_banner_shown',
+  returning: 'loi25_consent_returning',
+};
+
 /** Default banner texts for both languages. */
 export const DEFAULT_TEXTS = {
   fr: {
@@ -24,8 +90,48 @@ export const DEFAULT_TEXTS = {
       'Ce site utilise des témoins (cookies) pour améliorer votre expérience. Conformément à la Loi 25 du Québec, nous demandons votre consentement.',
     accept: 'Tout accepter',
     reject: 'Nécessaires seulement',
+    customize: 'Personnaliser',
+    preferencesTitle: 'Préférences de témoins',
+    save: 'Enregistrer mes choix',
+    alwaysActive: 'Toujours actifs',
+    browserSignal:
+      'Votre navigateur envoie un signal de confidentialité : les témoins marketing sont désactivés.',
+    policyUpdated:
+      'Notre politique de confidentialité a changé depuis votre dernier consentement.',
     privacy: 'Politique de confidentialité',
     powered: 'Propulsé par',
+    doNotSell: 'Ne pas vendre ni partager mes renseignements personnels',
+    gateMessage:
+      'Ce contenu est fourni par {vendor}, qui dépose des témoins de la catégorie « {category} ». Le charger active cette catégorie.',
+    gateLoad: 'Charger le contenu',
+    gateThirdParty: 'un tiers',
+    vendors: 'Services',
+    vendorPrivacy: 'Politique de confidentialité',
+    bannerLabel: 'Consentement aux cookies',
+    consentSaved: 'Vos choix en matière de cookies ont été enregistrés.',
+    reconsentLabel: 'Gérer les cookies',
+    categories: {
+      necessary: {
+        label: 'Nécessaires',
+        description:
+          'Essentiels au fonctionnement du site (sécurité, session, mémorisation de votre consentement). Ils ne peuvent pas être désactivés.',
+      },
+      functional: {
+        label: 'Fonctionnels',
+        description:
+          'Mémorisent vos préférences, comme la langue ou la région, et activent des fonctionnalités améliorées.',
+      },
+      analytics: {
+        label: 'Analytiques',
+        description:
+          'Nous aident à comprendre comment le site est utilisé afin de l’améliorer. Les données sont agrégées.',
+      },
+      marketing: {
+        label: 'Marketing',
+        description:
+          'Permettent d’afficher des publicités pertinentes et de mesurer l’efficacité de nos campagnes.',
+      },
+    },
   },
   en: {
     title: 'Your Privacy Matters',
@@ -33,7 +139,64 @@ export const DEFAULT_TEXTS = {
       "This website uses cookies to improve your experience. In compliance with Quebec's Law 25, we ask for your consent.",
     accept: 'Accept All',
     reject: 'Necessary Only',
+    customize: 'Customize',
+    preferencesTitle: 'Cookie Preferences',
+    save: 'Save choices',
+    alwaysActive: 'Always active',
+    browserSignal:
+      'Your browser sends a privacy signal, so marketing cookies are turned off.',
+    policyUpdated: 'Our privacy policy has changed since you last gave consent.',
     privacy: 'Privacy Policy',
     powered: 'Powered by',
+    doNotSell: 'Do Not Sell or Share My Personal Information',
+    gateMessage:
+      'This content is provided by {vendor}, which sets cookies in the "{category}" category. Loading it turns that category on.',
+    gateLoad: 'Load content',
+    gateThirdParty: 'a third party',
+    vendors: 'Services',
+    vendorPrivacy: 'Privacy policy',
+    bannerLabel: 'Cookie consent',
+    consentSaved: 'Your cookie choices have been saved.',
+    reconsentLabel: 'Manage cookies',
+    categories: {
+      necessary: {
+        label: 'Necessary',
+        description:
+          'Essential for the site to work (security, session, remembering your consent). They cannot be turned off.',
+      },
+      functional: {
+        label: 'Functional',
+        description:
+          'Remember your preferences, such as language or region, and enable enhanced features.',
+      },
+      analytics: {
+        label: 'Analytics',
+        description:
+          'Help us understand how the site is used so we can improve it. Data is aggregated.',
+      },
+      marketing: {
+        label: 'Marketing',
+        description:
+          'Used to show relevant ads and measure how well our campaigns perform.',
+      },
+    },
+  },
+} as const;
+
+/** Default `<CookieDeclaration>` table texts for both languages. */
+export const DEFAULT_DECLARATION_TEXTS = {
+  fr: {
+    name: 'Nom',
+    provider: 'Fournisseur',
+    purpose: 'Finalité',
+    duration: 'Durée',
+    empty: 'Aucun témoin dans cette catégorie.',
+  },
+  en: {
+    name: 'Name',
+    provider: 'Provider',
+    purpose: 'Purpose',
+    duration: 'Duration',
+    empty: 'No cookies in this category.',
   },
 } as const;
@@ -0,0 +1,48 @@
+import type { ConsentCategory } from './types';
+
+// ─── Embed vendors ───
+
+/** Embed providers known to `<ConsentGate vendor>`. */
+export type EmbedVendorId =
+  | 'youtube'
+  | 'vimeo'
+  | 'google-maps'
+  | 'spotify'
+  | 'soundcloud'
+  | 'x'
+  | 'instagram'
+  | 'facebook'
+  | 'tiktok'
+  | 'linkedin';
+
+/** Display name and consent category of an embed provider. */
+export interface EmbedVendor {
+  /** Name shown in the placeholder. */
+  name: string;
+  /** Category its cookies fall under with the default embed code. */
+  category: ConsentCategory;
+}
+
+/**
+ * Embed providers whose iframes set cookies as soon as they load. Check the
+ * categories against your own setup (e.g. `youtube-nocookie.com`).
+ */
+export const EMBED_VENDORS: Record<EmbedVendorId, EmbedVendor> = {
+  youtube: { name: 'YouTube', category: 'marketing' },
+  vimeo: { name: 'Vimeo', category: 'analytics' },
+  'google-maps': { name: 'Google Maps', category: 'marketing' },
+  spotify: { name: 'Spotify', category: 'marketing' },
+  soundcloud: { name: 'SoundCloud', category: 'marketing' },
+  x: { name: 'X', category: 'marketing' },
+  instagram: { name: 'Instagram', category: 'marketing' },
+  facebook: { name: 'Facebook', category: 'marketing' },
+  tiktok: { name: 'TikTok', category: 'marketing' },
+  linkedin: { name: 'LinkedIn', category: 'marketing' },
+};
+
+/** Known vendor for an id, or `undefined`. */
+export function getEmbedVendor(id: string | undefined): EmbedVendor | undefined {
+  return id && Object.prototype.hasOwnProperty.call(EMBED_VENDORS, id)
+    ? EMBED_VENDORS[id as EmbedVendorId]
+    : undefined;
+}
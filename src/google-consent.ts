@@ -0,0 +1,43 @@
+import type {
+  ConsentCategories,
+  GoogleConsentMapping,
+  GoogleConsentType,
+} from './types';
+import { DEFAULT_GOOGLE_CONSENT_MAPPING } from './defaults';
+
+// ─── Google Consent Mode v2 mapping ───
+
+/** Default mapping with `overrides` applied on top. */
+export function resolveGoogleConsentMapping(
+  overrides?: GoogleConsentMapping,
+): Required<GoogleConsentMapping> {
+  return { ...DEFAULT_GOOGLE_CONSENT_MAPPING, ...overrides };
+}
+
+/**
+ * Consent Mode defaults for a mapping: types mapped to `necessary` start
+ * granted, every other type starts denied.
+ */
+export function getGoogleConsentDefaults(
+  mapping: Required<GoogleConsentMapping>,
+): Record<GoogleConsentType, 'granted' | 'denied'> {
+  const result = {} as Record<GoogleConsentType, 'granted' | 'denied'>;
+  (Object.keys(mapping) as GoogleConsentType[]).forEach((type) => {
+    result[type] = mapping[type] === 'necessary' ? 'granted' : 'denied';
+  });
+  return result;
+}
+
+/** Consent Mode `update` payload for a choice: each type follows its category. */
+export function getGoogleConsentUpdate(
+  categories: ConsentCategories,
+  mapping: Required<GoogleConsentMapping>,
+): Record<GoogleConsentType, 'granted' | 'denied'> {
+  const result = {} as Record<GoogleConsentType, 'granted' | 'denied'>;
+  (Object.keys(mapping) as GoogleConsentType[]).forEach((type) => {
+    const category = mapping[type];
+    result[type] =
+      category === 'necessary' || categories[category] === true ? 'granted' : 'denied';
+  });
+  return result;
+}
@@ -0,0 +1,143 @@
+import { int, bool, letters, vendorSection, fibonacciRange, toBase64Url } from './bits';
+
+// ─── Types ───
+
+/**
+ * US National Privacy section (`usnat`, id 7), version 1. Notice and
+ * opt-out fields use `0` = not applicable, `1` = yes / opted out,
+ * `2` = no / did not opt out.
+ */
+export interface UsNatSection {
+  Version: number;
+  SharingNotice: number;
+  SaleOptOutNotice: number;
+  SharingOptOutNotice: number;
+  TargetedAdvertisingOptOutNotice: number;
+  SensitiveDataProcessingOptOutNotice: number;
+  SensitiveDataLimitUseNotice: number;
+  SaleOptOut: number;
+  SharingOptOut: number;
+  TargetedAdvertisingOptOut: number;
+  /** 12 sensitive data categories. */
+  SensitiveDataProcessing: number[];
+  /** Consent for known children under 13 and 13–16. */
+  KnownChildSensitiveDataConsents: number[];
+  PersonalDataConsents: number;
+  MspaCoveredTransaction: number;
+  MspaOptOutOptionMode: number;
+  MspaServiceProviderMode: number;
+  /** Whether Global Privacy Control was sent. */
+  Gpc: boolean;
+}
+
+/** Canadian TCF section (`tcfcav1`, id 5), version 1. */
+export interface TcfCaV1Section {
+  Version: number;
+  Created: Date;
+  LastUpdated: Date;
+  CmpId: number;
+  CmpVersion: number;
+  ConsentScreen: number;
+  ConsentLanguage: string;
+  VendorListVersion: number;
+  TcfPolicyVersion: number;
+  UseNonStandardTexts: boolean;
+  /** 12 special features, index 0 = special feature 1. */
+  SpecialFeatureExpressConsent: boolean[];
+  /** 24 purposes, index 0 = purpose 1. */
+  PurposesExpressConsent: boolean[];
+  PurposesImpliedConsent: boolean[];
+  VendorExpressConsent: number[];
+  VendorImpliedConsent: number[];
+}
+
+/** Sections supported by `encodeGppString()`, keyed by API prefix. */
+export interface GppSections {
+  tcfcav1?: TcfCaV1Section;
+  usnat?: UsNatSection;
+}
+
+/** GPP section ids, per the IAB section registry. */
+export const GPP_SECTION_IDS = {
+  tcfcav1: 5,
+  usnat: 7,
+} as const;
+
+// ─── Section encoders ───
+
+function flagBits(values: boolean[], length: number): string {
+  let bits = '';
+  for (let i = 0; i < length; i++) bits += bool(values[i] === true);
+  return bits;
+}
+
+function fields(values: number[], length: number): string {
+  let bits = '';
+  for (let i = 0; i < length; i++) bits += int(values[i] ?? 0, 2);
+  return bits;
+}
+
+function encodeUsNat(s: UsNatSection): string {
+  const core =
+    int(s.Version, 6) +
+    int(s.SharingNotice, 2) +
+    int(s.SaleOptOutNotice, 2) +
+    int(s.SharingOptOutNotice, 2) +
+    int(s.TargetedAdvertisingOptOutNotice, 2) +
+    int(s.SensitiveDataProcessingOptOutNotice, 2) +
+    int(s.SensitiveDataLimitUseNotice, 2) +
+    int(s.SaleOptOut, 2) +
+    int(s.SharingOptOut, 2) +
+    int(s.TargetedAdvertisingOptOut, 2) +
+    fields(s.SensitiveDataProcessing, 12) +
+    fields(s.KnownChildSensitiveDataConsents, 2) +
+    int(s.PersonalDataConsents, 2) +
+    int(s.MspaCoveredTransaction, 2) +
+    int(s.MspaOptOutOptionMode, 2) +
+    int(s.MspaServiceProviderMode, 2);
+  // GPC sub-section: type 1, then the flag
+  const gpc = int(1, 2) + bool(s.Gpc);
+  return `${toBase64Url(core)}.${toBase64Url(gpc)}`;
+}
+
+function encodeTcfCaV1(s: TcfCaV1Section): string {
+  return toBase64Url(
+    int(s.Version, 6) +
+      int(s.Created.getTime() / 100, 36) +
+      int(s.LastUpdated.getTime() / 100, 36) +
+      int(s.CmpId, 12) +
+      int(s.CmpVersion, 12) +
+      int(s.ConsentScreen, 6) +
+      letters(s.ConsentLanguage) +
+      int(s.VendorListVersion, 12) +
+      int(s.TcfPolicyVersion, 6) +
+      bool(s.UseNonStandardTexts) +
+      flagBits(s.SpecialFeatureExpressConsent, 12) +
+      flagBits(s.PurposesExpressConsent, 24) +
+      flagBits(s.PurposesImpliedConsent, 24) +
+      vendorSection(s.VendorExpressConsent) +
+      vendorSection(s.VendorImpliedConsent) +
+      int(0, 12), // No publisher restrictions
+  );
+}
+
+// ─── Public API ───
+
+/**
+ * Encodes a GPP string: the header listing the section ids, followed by
+ * each section, `~`-separated and in id order.
+ */
+export function encodeGppString(sections: GppSections): string {
+  const parts: Array<{ id: number; value: string }> = [];
+  if (sections.tcfcav1) {
+    parts.push({ id: GPP_SECTION_IDS.tcfcav1, value: encodeTcfCaV1(sections.tcfcav1) });
+  }
+  if (sections.usnat) {
+    parts.push({ id: GPP_SECTION_IDS.usnat, value: encodeUsNat(sections.usnat) });
+  }
+  // Header: type 3, version 1, section ids
+  const header = toBase64Url(
+    int(3, 6) + int(1, 6) + fibonacciRange(parts.map((p) => p.id)),
+  );
+  return [header, ...parts.map((p) => p.value)].join('~');
+}
@@ -0,0 +1,353 @@
+import type { ConsentCategories, ConsentStorage, GppOptions } from './types';
+import { STORAGE_DATE_KEY, STORAGE_GPP_STRING_KEY } from './defaults';
+import { defaultStorage } from './storage';
+import { buildTCModel } from './tcf';
+import { detectBrowserSignal } from './browser-signals';
+import { encodeGppString, GPP_SECTION_IDS } from './gpp-string';
+import type { GppSections } from './gpp-string';
+
+// ─── Types ───
+
+/** `cmpDisplayStatus` reported by the `__gpp` API. */
+export type GppDisplayStatus = 'visible' | 'hidden' | 'disabled';
+
+/** Data returned by `ping` and attached to every `__gpp` event. */
+export interface GppPingData {
+  gppVersion: '1.1';
+  cmpStatus: 'stub' | 'loaded';
+  cmpDisplayStatus: GppDisplayStatus;
+  signalStatus: 'not ready' | 'ready';
+  supportedAPIs: string[];
+  cmpId: number;
+  sectionList: number[];
+  applicableSections: number[];
+  gppString: string;
+  parsedSections: GppSections;
+}
+
+/** Payload passed to `__gpp('addEventListener')` callbacks. */
+export interface GppEvent {
+  eventName:
+    | 'listenerRegistered'
+    | 'cmpStatus'
+    | 'cmpDisplayStatus'
+    | 'signalStatus'
+    | 'sectionChange';
+  listenerId: number;
+  data: unknown;
+  pingData: GppPingData;
+}
+
+/** Handle returned by `installGppApi()`. */
+export interface GppApi {
+  /**
+   * Publishes the visitor's choice (or `null` before one is made) to
+   * `__gpp` callers and returns the GPP string. The string is stored
+   * while the banner is hidden.
+   */
+  update: (
+    categories: ConsentCategories | null,
+    details: {
+      language: string;
+      displayStatus: GppDisplayStatus;
+      /** Whether the choice was just made, rather than read from storage. */
+      userAction?: boolean;
+    },
+  ) => string;
+  /** Removes `window.__gpp`, its message listener and the locator frame. */
+  destroy: () => void;
+}
+
+type GppCallback = (returnValue: unknown, success: boolean) => void;
+
+type GppCommand = (
+  command: string,
+  callback?: GppCallback,
+  parameter?: unknown,
+  version?: string,
+) => unknown;
+
+type SectionName = keyof GppSections;
+
+// ─── Sections ───
+
+function getSectionNames(options: GppOptions): SectionName[] {
+  const names: SectionName[] = [];
+  if (options.tcfca) names.push('tcfcav1');
+  if (options.usnat !== false) names.push('usnat');
+  return names;
+}
+
+function toFlags(ids: number[], length: number): boolean[] {
+  const flags: boolean[] = [];
+  for (let id = 1; id <= length; id++) flags.push(ids.includes(id));
+  return flags;
+}
+
+/**
+ * Builds the GPP sections for a category choice. In `usnat`, the sale,
+ * sharing and targeted advertising opt-outs follow `marketing` and read as
+ * opted out before a choice is made. `tcfcav1` records express consent the
+ * same way the TCF purposes are mapped.
+ */
+export function buildGppSections(
+  categories: ConsentCategories | null,
+  options: GppOptions,
+  details: { language: string; gpc?: boolean; created?: Date },
+): GppSections {
+  const sections: GppSections = {};
+
+  if (options.tcfca) {
+    const model = buildTCModel(
+      categories,
+      { ...options.tcfca, cmpId: options.cmpId, cmpVersion: options.cmpVersion },
+      { language: details.language, created: details.created },
+    );
+    sections.tcfcav1 = {
+      Version: 1,
+      Created: model.created,
+      LastUpdated: model.lastUpdated,
+      CmpId: model.cmpId,
+      CmpVersion: model.cmpVersion,
+      ConsentScreen: model.consentScreen,
+      ConsentLanguage: model.consentLanguage.toUpperCase(),
+      VendorListVersion: model.vendorListVersion,
+      TcfPolicyVersion: model.policyVersion,
+      UseNonStandardTexts: false,
+      SpecialFeatureExpressConsent: toFlags(model.specialFeatureOptins, 12),
+      PurposesExpressConsent: toFlags(model.purposeConsents, 24),
+      PurposesImpliedConsent: toFlags([], 24),
+      VendorExpressConsent: model.vendorConsents,
+      VendorImpliedConsent: [],
+    };
+  }
+
+  if (options.usnat !== false) {
+    const covered =
+      typeof options.usnat === 'object' && options.usnat.mspaCoveredTransaction === true;
+    const optOut = categories?.marketing === true ? 2 : 1;
+    sections.usnat = {
+      Version: 1,
+      SharingNotice: 1,
+      SaleOptOutNotice: 1,
+      SharingOptOutNotice: 1,
+      TargetedAdvertisingOptOutNotice: 1,
+      SensitiveDataProcessingOptOutNotice: 0,
+      SensitiveDataLimitUseNotice: 0,
+      SaleOptOut: optOut,
+      SharingOptOut: optOut,
+      TargetedAdvertisingOptOut: optOut,
+      SensitiveDataProcessing: Array(12).fill(0),
+      KnownChildSensitiveDataConsents: [0, 0],
+      PersonalDataConsents: 0,
+      MspaCoveredTransaction: covered ? 1 : 2,
+      MspaOptOutOptionMode: covered ? 1 : 0,
+      MspaServiceProviderMode: covered ? 2 : 0,
+      Gpc: details.gpc === true,
+    };
+  }
+
+  return sections;
+}
+
+function ensureLocatorFrame(): void {
+  if (document.querySelector('iframe[name="__gppLocator"]')) return;
+  const frame = document.createElement('iframe');
+  frame.name = '__gppLocator';
+  frame.style.display = 'none';
+  document.body.appendChild(frame);
+}
+
+// ─── Stub ───
+
+/**
+ * Returns an inline script that defines a queuing `window.__gpp` stub and
+ * the `__gppLocator` frame, so tags loaded before React can already call
+ * the API. `installGppApi()` answers the queued calls.
+ * `getConsentModeScript({ gpp: true })` includes it.
+ */
+export function getGppStubScript(): string {
+  return [
+    `(function(){`,
+    `  if(typeof window.__gpp==='function')return;`,
+    `  function l(){`,
+    `    if(window.frames.__gppLocator)return;`,
+    `    if(!document.body)return setTimeout(l,5);`,
+    `    var f=document.createElement('iframe');`,
+    `    f.style.display='none';f.name='__gppLocator';`,
+    `    document.body.appendChild(f);`,
+    `  }`,
+    `  l();`,
+    `  var g=window.__gpp=function(c,cb){`,
+    `    if(c==='ping'){`,
+    `      if(typeof cb==='function')cb({gppVersion:'1.1',cmpStatus:'stub',cmpDisplayStatus:'hidden',signalStatus:'not ready',supportedAPIs:[],cmpId:0,sectionList:[],applicableSections:[-1],gppString:'',parsedSections:{}},true);`,
+    `    }else g.queue.push([].slice.call(arguments));`,
+    `  };`,
+    `  g.queue=[];`,
+    `  window.addEventListener('message',function(e){`,
+    `    var s=typeof e.data==='string',d=e.data;`,
+    `    try{if(s)d=JSON.parse(e.data);}catch(x){return;}`,
+    `    var c=d&&d.__gppCall;`,
+    `    if(!c||typeof window.__gpp!=='function')return;`,
+    `    window.__gpp(c.command,function(r,ok){`,
+    `      var m={__gppReturn:{returnValue:r,success:ok,callId:c.callId}};`,
+    `      if(e.source)e.source.postMessage(s?JSON.stringify(m):m,'*');`,
+    `    },c.parameter,c.version);`,
+    `  },false);`,
+    `})();`,
+  ].join('\n');
+}
+
+// ─── CMP API ───
+
+/**
+ * Installs the IAB GPP v1.1 CMP API on `window.__gpp`, replacing the stub
+ * and answering the calls it queued. Supports `ping`, `addEventListener`,
+ * `removeEventListener`, `hasSection`, `getSection` and `getField`.
+ * `<CookieConsent gpp>` calls this for you.
+ */
+export function installGppApi(
+  options: GppOptions,
+  storage: ConsentStorage = defaultStorage,
+): GppApi {
+  const w = window as unknown as { __gpp?: GppCommand & { queue?: unknown[][] } };
+  const queue = typeof w.__gpp === 'function' ? w.__gpp.queue : undefined;
+  // The stub already relays postMessage calls to whatever __gpp is now
+  const hasStub = Array.isArray(queue);
+
+  const names = getSectionNames(options);
+  const sectionList = names.map((name) => GPP_SECTION_IDS[name]);
+  let sections: GppSections = {};
+  let gppString = '';
+  let displayStatus: GppDisplayStatus = 'hidden';
+  let signalStatus: GppPingData['signalStatus'] = 'not ready';
+  let nextListenerId = 1;
+  const listeners = new Map<number, GppCallback>();
+
+  const pingData = (): GppPingData => ({
+    gppVersion: '1.1',
+    cmpStatus: 'loaded',
+    cmpDisplayStatus: displayStatus,
+    signalStatus,
+    supportedAPIs: names.map((name) => `${GPP_SECTION_IDS[name]}:${name}`),
+    cmpId: options.cmpId,
+    sectionList,
+    applicableSections: options.applicableSections ?? sectionList,
+    gppString,
+    parsedSections: sections,
+  });
+
+  const emit = (eventName: GppEvent['eventName'], data: unknown) => {
+    listeners.forEach((callback, listenerId) => {
+      const event: GppEvent = { eventName, listenerId, data, pingData: pingData() };
+      callback(event, true);
+    });
+  };
+
+  const api: GppCommand = (command, callback, parameter) => {
+    if (typeof callback !== 'function') return;
+    switch (command) {
+      case 'ping':
+        callback(pingData(), true);
+        return;
+      case 'addEventListener': {
+        const listenerId = nextListenerId++;
+        listeners.set(listenerId, callback);
+        const event: GppEvent = {
+          eventName: 'listenerRegistered',
+          listenerId,
+          data: true,
+          pingData: pingData(),
+        };
+        callback(event, true);
+        return;
+      }
+      case 'removeEventListener':
+        callback(listeners.delete(parameter as number), true);
+        return;
+      case 'hasSection':
+        callback(!!sections[parameter as SectionName], true);
+        return;
+      case 'getSection':
+        callback(sections[parameter as SectionName] ?? null, true);
+        return;
+      case 'getField': {
+        const [name, field] = String(parameter).split('.');
+        const section = sections[name as SectionName] as Record<string, unknown> | undefined;
+        callback(section?.[field] ?? null, true);
+        return;
+      }
+      default:
+        callback(null, false);
+    }
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    const isString = typeof event.data === 'string';
+    let data: unknown = event.data;
+    try {
+      if (isString) data = JSON.parse(event.data as string);
+    } catch {
+      return;
+    }
+    const call = (data as { __gppCall?: Record<string, unknown> } | null)?.__gppCall;
+    if (!call) return;
+    api(
+      call.command as string,
+      (returnValue, success) => {
+        const message = { __gppReturn: { returnValue, success, callId: call.callId } };
+        (event.source as Window | null)?.postMessage(
+          isString ? JSON.stringify(message) : message,
+          '*',
+        );
+      },
+      call.parameter,
+      call.version as string | undefined,
+    );
+  };
+
+  w.__gpp = api;
+  if (!hasStub) {
+    ensureLocatorFrame();
+    window.addEventListener('message', onMessage);
+  }
+  queue?.forEach((args) => api(...(args as Parameters<GppCommand>)));
+
+  return {
+    update(categories, details) {
+      const date = storage.getItem(STORAGE_DATE_KEY);
+      if (signalStatus === 'ready') {
+        signalStatus = 'not ready';
+        emit('signalStatus', signalStatus);
+      }
+
+      sections = buildGppSections(categories, options, {
+        language: details.language,
+        gpc: detectBrowserSignal() === 'gpc',
+        created:
+          categories && !details.userAction && date
+            ? new Date(parseInt(date, 10))
+            : undefined,
+      });
+      gppString = encodeGppString(sections);
+      if (categories && details.displayStatus === 'hidden') {
+        storage.setItem(STORAGE_GPP_STRING_KEY, gppString);
+      }
+
+      if (displayStatus !== details.displayStatus) {
+        displayStatus = details.displayStatus;
+        emit('cmpDisplayStatus', displayStatus);
+      }
+      names.forEach((name) => emit('sectionChange', name));
+      signalStatus = 'ready';
+      emit('signalStatus', signalStatus);
+      return gppString;
+    },
+    destroy() {
+      listeners.clear();
+      window.removeEventListener('message', onMessage);
+      if (w.__gpp === api) delete w.__gpp;
+      document.querySelector('iframe[name="__gppLocator"]')?.remove();
+    },
+  };
+}
@@ -1,8 +1,112 @@
 // ─── Components ───
 export { CookieConsent } from './CookieConsent';
+export { CookieDeclaration } from './CookieDeclaration';
+export { CookieConsentProvider } from './CookieConsentProvider';
+export { ConsentGate } from './ConsentGate';
 
 // ─── Hooks ───
 export { useConsent } from './use-consent';
+export { useConsentController } from './CookieConsentProvider';
+
+// ─── Consent manager ───
+export { createConsentManager, exposeConsentManager } from './consent-manager';
+export type {
+  ConsentManager,
+  ConsentManagerOptions,
+  ConsentManagerGlobal,
+  ConsentListener,
+  ConsentCommand,
+} from './consent-manager';
+
+// ─── Languages ───
+export { registerLocale } from './locales';
+export { matchLocale } from './language';
+
+// ─── Jurisdictions ───
+export {
+  JURISDICTIONS,
+  matchJurisdiction,
+  resolveJurisdiction,
+  regionFromTimezone,
+} from './jurisdictions';
+
+// ─── Embeds ───
+export { EMBED_VENDORS } from './embeds';
+export type { EmbedVendor, EmbedVendorId } from './embeds';
+
+// ─── Vendors ───
+export { registerVendor, getCatalogVendors } from './vendors';
+
+// ─── Categories ───
+export { resolveCategories, summarizeCategories } from './categories';
+
+// ─── Storage ───
+export {
+  createLocalStorage,
+  createSessionStorage,
+  createCookieStorage,
+  createMemoryStorage,
+} from './storage';
+export type { CookieStorageOptions } from './storage';
+export { createHubStorage, getConsentHubHtml } from './consent-hub';
+export type { HubStorageOptions, ConsentHubOptions } from './consent-hub';
+
+// ─── Script blocking ───
+export { activateBlockedScripts, observeBlockedScripts } from './script-blocker';
+export type { CategoryCheck, VendorCheck } from './script-blocker';
+
+// ─── Script Vault ───
+export { injectScripts, removeInjectedScripts } from './script-vault';
+export type { ScriptVaultOptions } from './script-vault';
+export { registerTeardown } from './teardown';
+
+// ─── Cookie cleanup ───
+export { purgeTrackingData, purgeVendorData, TRACKER_PATTERNS } from './cookie-cleanup';
+
+// ─── Cookie inventory ───
+export { COOKIE_CATALOG, getCatalogCookies } from './cookie-catalog';
+export type { CatalogVendor } from './cookie-catalog';
+
+// ─── Browser privacy signals ───
+export { detectBrowserSignal } from './browser-signals';
+
+// ─── Vendor adapters ───
+export {
+  metaPixelAdapter,
+  microsoftUetAdapter,
+  clarityAdapter,
+  tiktokAdapter,
+  linkedInAdapter,
+  hotjarAdapter,
+  applyConsentAdapters,
+} from './vendor-adapters';
+export type {
+  VendorAdapterOptions,
+  ClarityAdapterOptions,
+  LinkedInAdapterOptions,
+} from './vendor-adapters';
+
+// ─── Proof of consent ───
+export { createConsentRecord, createBeaconLogger } from './consent-logger';
+export type { BeaconLoggerOptions } from './consent-logger';
+
+// ─── IAB TCF v2.2 ───
+export {
+  installTcfApi,
+  getTcfStubScript,
+  buildTCModel,
+  TCF_PURPOSE_CATEGORIES,
+  TCF_SPECIAL_FEATURE_CATEGORIES,
+} from './tcf';
+export type { TcfApi, TcfEventStatus, TCData, TcfPingReturn } from './tcf';
+export { encodeTCString, decodeTCString } from './tc-string';
+export type { TCModel } from './tc-string';
+
+// ─── IAB Global Privacy Platform ───
+export { installGppApi, getGppStubScript, buildGppSections } from './gpp';
+export type { GppApi, GppDisplayStatus, GppPingData, GppEvent } from './gpp';
+export { encodeGppString, GPP_SECTION_IDS } from './gpp-string';
+export type { GppSections, UsNatSection, TcfCaV1Section } from './gpp-string';
 
 // ─── Google Consent Mode v2 ───
 export { getConsentModeScript } from './consent-mode';
@@ -11,23 +115,73 @@ export type { ConsentModeDefaults } from './consent-mode';
 // ─── Types ───
 export type {
   ConsentLevel,
+  ConsentSummary,
+  ConsentCategory,
+  ConsentCategories,
+  ConsentCategoryDefinition,
+  ConsentMethod,
+  BrowserSignal,
+  Jurisdiction,
+  JurisdictionButton,
+  RegionResolver,
+  ConsentRecord,
+  ConsentLogger,
+  ConsentAdapter,
+  GoogleConsentType,
+  GoogleConsentMapping,
+  DataLayerEventNames,
+  ConsentStorage,
+  GvlVendor,
+  GlobalVendorList,
+  TcfOptions,
+  GppOptions,
+  CookiePattern,
+  CleanupPatterns,
+  ConsentTeardown,
+  LocalizedText,
+  CookieDefinition,
+  DeclarationTexts,
+  CookieDeclarationProps,
+  ConsentGateProps,
+  ConsentGatePlaceholder,
   Language,
+  ConsentLocale,
   BannerStyle,
   BannerPosition,
   BannerTheme,
   Animation,
   ConsentTexts,
+  ConsentCategoryTexts,
+  CookieConsentProviderProps,
   CookieConsentProps,
+  ConsentController,
+  ResolvedConsentTexts,
   ConsentState,
+  UseConsentOptions,
 } from './types';
 
 // ─── Constants ───
 export {
   STORAGE_KEY,
   STORAGE_DATE_KEY,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_ID_KEY,
+  STORAGE_VERSION_KEY,
+  STORAGE_TC_STRING_KEY,
+  STORAGE_GPP_STRING_KEY,
+  STORAGE_VENDORS_KEY,
+  LOG_QUEUE_KEY,
+  BUILT_IN_CATEGORIES,
+  SCRIPT_CATEGORY_ATTRIBUTE,
+  SCRIPT_VENDOR_ATTRIBUTE,
+  SCRIPT_ACTIVATED_ATTRIBUTE,
   CONSENT_CHANGE_EVENT,
   DEFAULT_BRAND_COLOR,
   DEFAULT_EXPIRY_DAYS,
   DEFAULT_WAIT_FOR_UPDATE,
+  DEFAULT_GOOGLE_CONSENT_MAPPING,
+  DEFAULT_DATALAYER_EVENTS,
+  DEFAULT_LANGUAGE,
   DEFAULT_TEXTS,
+  DEFAULT_DECLARATION_TEXTS,
 } from './defaults';
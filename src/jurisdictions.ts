@@ -0,0 +1,259 @@
+import type {
+  ConsentCategories,
+  ConsentCategory,
+  GoogleConsentMapping,
+  Jurisdiction,
+  JurisdictionButton,
+  RegionResolver,
+} from './types';
+import { BUILT_IN_CATEGORIES } from './defaults';
+import { resolveCategories } from './categories';
+import { getGoogleConsentUpdate } from './google-consent';
+
+// ─── Presets ───
+
+/** EEA member states plus the United Kingdom (UK GDPR). */
+const GDPR_COUNTRIES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR',
+  'HU', 'IE', 'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK',
+  'SI', 'ES', 'SE', 'IS', 'LI', 'NO', 'GB',
+];
+
+/**
+ * Built-in privacy regimes. Override a field by spreading a preset:
+ * `{ ...JURISDICTIONS.gdpr, maxExpiryDays: 180 }`.
+ */
+export const JURISDICTIONS: Record<'law25' | 'gdpr' | 'pipeda' | 'ccpa', Jurisdiction> = {
+  // Quebec: express opt-in consent, the banner's built-in wording
+  law25: {
+    id: 'law25',
+    regions: ['CA-QC'],
+  },
+  // EU / EEA / UK: opt-in, choices renewed after 13 months
+  gdpr: {
+    id: 'gdpr',
+    regions: GDPR_COUNTRIES,
+    maxExpiryDays: 395,
+    texts: {
+      fr: {
+        message:
+          'Ce site utilise des témoins (cookies) pour améliorer votre expérience. Conformément au RGPD, nous demandons votre consentement avant d’utiliser ceux qui ne sont pas essentiels.',
+      },
+      en: {
+        message:
+          'This website uses cookies to improve your experience. In line with the GDPR, we ask for your consent before using any that are not essential.',
+      },
+    },
+  },
+  // Rest of Canada: implied consent for non-sensitive uses, express
+  // consent for advertising
+  pipeda: {
+    id: 'pipeda',
+    regions: ['CA'],
+    defaults: { functional: true, analytics: true },
+    texts: {
+      fr: {
+        message:
+          'Ce site utilise des témoins (cookies) pour fonctionner et mesurer son utilisation. Les témoins publicitaires ne sont utilisés qu’avec votre consentement.',
+      },
+      en: {
+        message:
+          'This website uses cookies to work and to measure how it is used. Advertising cookies are only used with your consent.',
+      },
+    },
+  },
+  // California: notice at collection, opt-out of sale and sharing, GPC honored
+  ccpa: {
+    id: 'ccpa',
+    regions: ['US-CA'],
+    defaults: 'all',
+    buttons: ['accept', 'doNotSell', 'customize'],
+    optOutCategories: ['marketing'],
+    respectBrowserSignals: 'reject',
+    texts: {
+      fr: {
+        title: 'Vos choix en matière de confidentialité',
+        message:
+          'Ce site utilise des témoins (cookies), y compris pour la publicité ciblée, ce qui peut constituer une « vente » ou un « partage » de renseignements personnels. Vous pouvez vous y opposer en tout temps.',
+        accept: 'J’ai compris',
+      },
+      en: {
+        title: 'Your Privacy Choices',
+        message:
+          'This website uses cookies, including for targeted advertising, which may be a "sale" or "sharing" of personal information. You can opt out at any time.',
+        accept: 'Got it',
+      },
+    },
+  },
+};
+
+const DEFAULT_BUTTONS: JurisdictionButton[] = ['accept', 'reject', 'customize'];
+
+// ─── Matching ───
+
+/**
+ * The jurisdiction covering `region`: an exact subdivision match
+ * (`'CA-QC'`) first, then the country (`'CA'`), then a `'*'` catch-all.
+ */
+export function matchJurisdiction(
+  region: string | null | undefined,
+  jurisdictions: Jurisdiction[] = Object.values(JURISDICTIONS),
+): Jurisdiction | undefined {
+  const code = region?.toUpperCase();
+  const country = code?.split('-')[0];
+  let best: Jurisdiction | undefined;
+  let bestScore = -1;
+  jurisdictions.forEach((jurisdiction) => {
+    jurisdiction.regions.forEach((candidate) => {
+      const value = candidate.toUpperCase();
+      const score =
+        code && value === code ? 2 : country && value === country ? 1 : value === '*' ? 0 : -1;
+      if (score > bestScore) {
+        best = jurisdiction;
+        bestScore = score;
+      }
+    });
+  });
+  return best;
+}
+
+/**
+ * Jurisdiction in effect: `explicit` (by id or as an object), else the one
+ * matching `region`, else Quebec Law 25.
+ */
+export function resolveJurisdiction(
+  explicit: string | Jurisdiction | undefined,
+  jurisdictions: Jurisdiction[] | undefined,
+  region: string | null | undefined,
+): Jurisdiction {
+  const candidates = jurisdictions ?? Object.values(JURISDICTIONS);
+  if (typeof explicit === 'object') return explicit;
+  if (explicit) {
+    const byId = [...candidates, ...Object.values(JURISDICTIONS)].find(
+      (jurisdiction) => jurisdiction.id === explicit,
+    );
+    if (byId) return byId;
+  }
+  return matchJurisdiction(region, candidates) ?? JURISDICTIONS.law25;
+}
+
+// ─── Behavior ───
+
+/** Category states a jurisdiction applies before a choice is made. */
+export function getJurisdictionDefaults(
+  jurisdiction: Jurisdiction,
+  ids: readonly string[] = BUILT_IN_CATEGORIES,
+): ConsentCategories {
+  return resolveCategories(jurisdiction.defaults ?? 'necessary', ids);
+}
+
+/** Whether a jurisdiction grants any optional category before a choice. */
+export function hasImpliedConsent(jurisdiction: Jurisdiction): boolean {
+  const defaults = getJurisdictionDefaults(jurisdiction);
+  return Object.keys(defaults).some((id) => id !== 'necessary' && defaults[id]);
+}
+
+/** Buttons a jurisdiction shows, in display order. */
+export function getJurisdictionButtons(jurisdiction: Jurisdiction): JurisdictionButton[] {
+  return jurisdiction.buttons ?? DEFAULT_BUTTONS;
+}
+
+/** `categories` with the jurisdiction's `optOutCategories` denied. */
+export function applyOptOut(
+  jurisdiction: Jurisdiction,
+  categories: ConsentCategories,
+): ConsentCategories {
+  const optOut: ConsentCategory[] = jurisdiction.optOutCategories ?? ['marketing'];
+  const result = { ...categories };
+  optOut.forEach((id) => {
+    if (id !== 'necessary') result[id] = false;
+  });
+  return result;
+}
+
+/**
+ * Region-scoped Google Consent Mode defaults, one per jurisdiction with
+ * specific regions. Google applies the most specific region's default, so
+ * `CA-QC` keeps Law 25's denied state inside a granted `CA`.
+ */
+export function getJurisdictionConsentDefaults(
+  jurisdictions: Jurisdiction[],
+  mapping: Required<GoogleConsentMapping>,
+): Array<Record<string, unknown>> {
+  const ids = [...BUILT_IN_CATEGORIES, ...Object.values(mapping)];
+  return jurisdictions
+    .map((jurisdiction) => ({
+      ...getGoogleConsentUpdate(getJurisdictionDefaults(jurisdiction, ids), mapping),
+      region: jurisdiction.regions.filter((region) => region !== '*'),
+    }))
+    .filter((defaults) => defaults.region.length > 0);
+}
+
+// ─── Region resolvers ───
+
+// Zones shared by Quebec and Ontario map to the stricter Quebec
+const QUEBEC_ZONES = ['America/Toronto', 'America/Montreal', 'America/Blanc-Sablon'];
+
+const CANADA_ZONES = [
+  'America/St_Johns', 'America/Halifax', 'America/Glace_Bay', 'America/Moncton',
+  'America/Goose_Bay', 'America/Iqaluit', 'America/Nipigon', 'America/Thunder_Bay',
+  'America/Rainy_River', 'America/Atikokan', 'America/Winnipeg', 'America/Rankin_Inlet',
+  'America/Resolute', 'America/Regina', 'America/Swift_Current', 'America/Edmonton',
+  'America/Cambridge_Bay', 'America/Yellowknife', 'America/Inuvik', 'America/Creston',
+  'America/Dawson_Creek', 'America/Fort_Nelson', 'America/Vancouver',
+  'America/Whitehorse', 'America/Dawson',
+];
+
+// Pacific time covers California, the strictest US state on the list
+const CALIFORNIA_ZONES = ['America/Los_Angeles'];
+
+const US_ZONES = [
+  'America/New_York', 'America/Chicago', 'America/Denver', 'America/Phoenix',
+  'America/Detroit', 'America/Boise', 'America/Anchorage', 'America/Juneau',
+  'America/Sitka', 'America/Metlakatla', 'America/Yakutat', 'America/Nome',
+  'America/Adak', 'America/Menominee', 'Pacific/Honolulu',
+];
+const US_ZONE_PREFIXES = ['America/Indiana/', 'America/Kentucky/', 'America/North_Dakota/'];
+
+const EUROPE_ZONES: Record<string, string> = {
+  'Europe/Vienna': 'AT', 'Europe/Brussels': 'BE', 'Europe/Sofia': 'BG',
+  'Europe/Zagreb': 'HR', 'Asia/Nicosia': 'CY', 'Asia/Famagusta': 'CY',
+  'Europe/Nicosia': 'CY', 'Europe/Prague': 'CZ', 'Europe/Copenhagen': 'DK',
+  'Europe/Tallinn': 'EE', 'Europe/Helsinki': 'FI', 'Europe/Mariehamn': 'FI',
+  'Europe/Paris': 'FR', 'Europe/Berlin': 'DE', 'Europe/Busingen': 'DE',
+  'Europe/Athens': 'GR', 'Europe/Budapest': 'HU', 'Europe/Dublin': 'IE',
+  'Europe/Rome': 'IT', 'Europe/Riga': 'LV', 'Europe/Vilnius': 'LT',
+  'Europe/Luxembourg': 'LU', 'Europe/Malta': 'MT', 'Europe/Amsterdam': 'NL',
+  'Europe/Warsaw': 'PL', 'Europe/Lisbon': 'PT', 'Atlantic/Madeira': 'PT',
+  'Atlantic/Azores': 'PT', 'Europe/Bucharest': 'RO', 'Europe/Bratislava': 'SK',
+  'Europe/Ljubljana': 'SI', 'Europe/Madrid': 'ES', 'Atlantic/Canary': 'ES',
+  'Africa/Ceuta': 'ES', 'Europe/Stockholm': 'SE', 'Atlantic/Reykjavik': 'IS',
+  'Europe/Vaduz': 'LI', 'Europe/Oslo': 'NO', 'Europe/London': 'GB',
+};
+
+function readTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guesses the region from the browser's time zone. A heuristic: VPNs and
+ * travelers defeat it, and zones shared by several regions map to the
+ * strictest one (`America/Toronto` → `'CA-QC'`). Prefer a server-provided
+ * region (`getRegionFromHeaders()` from `cookie-app/server`) when you have
+ * one.
+ */
+export const regionFromTimezone: RegionResolver = () => {
+  const zone = readTimeZone();
+  if (!zone) return null;
+  if (QUEBEC_ZONES.includes(zone)) return 'CA-QC';
+  if (CANADA_ZONES.includes(zone)) return 'CA';
+  if (CALIFORNIA_ZONES.includes(zone)) return 'US-CA';
+  if (US_ZONES.includes(zone) || US_ZONE_PREFIXES.some((prefix) => zone.startsWith(prefix))) {
+    return 'US';
+  }
+  return EUROPE_ZONES[zone] ?? null;
+};
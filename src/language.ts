@@ -0,0 +1,66 @@
+import { DEFAULT_LANGUAGE } from './defaults';
+
+// ─── BCP 47 matching ───
+
+// Languages and scripts written right to left
+const RTL_LANGUAGES = ['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi'];
+const RTL_SCRIPTS = ['arab', 'hebr', 'nkoo', 'syrc', 'thaa'];
+
+/** A tag and its parents, most specific first: `zh-Hant-TW`, `zh-Hant`, `zh`. */
+export function getParentTags(tag: string): string[] {
+  const parts = tag.split(/[-_]/).filter(Boolean);
+  const tags: string[] = [];
+  for (let i = parts.length; i > 0; i--) tags.push(parts.slice(0, i).join('-'));
+  return tags;
+}
+
+/**
+ * BCP 47 lookup: the first requested tag, or one of its parents, that is
+ * available. Failing that, a locale with the same primary language
+ * (`es` matches `es-MX`). Case-insensitive; returns the available code.
+ */
+export function matchLocale(requested: string[], available: string[]): string | undefined {
+  const byKey = new Map(available.map((code) => [code.toLowerCase(), code]));
+  for (const tag of requested) {
+    for (const parent of getParentTags(tag.toLowerCase())) {
+      const match = byKey.get(parent);
+      if (match) return match;
+    }
+  }
+  const primary = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+  for (const tag of requested) {
+    const match = available.find((code) => primary(code) === primary(tag));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/** Whether a tag is written right to left, from its script or language. */
+export function isRtlLanguage(tag: string): boolean {
+  const parts = tag.toLowerCase().split(/[-_]/);
+  const script = parts.slice(1).find((part) => part.length === 4);
+  return script ? RTL_SCRIPTS.includes(script) : RTL_LANGUAGES.includes(parts[0]);
+}
+
+// ─── Language detection ───
+
+/**
+ * The visitor's languages (`navigator.languages`), then the page's
+ * `<html lang>`.
+ */
+export function getPreferredLanguages(): string[] {
+  const tags: string[] = [];
+  if (typeof navigator !== 'undefined') {
+    if (navigator.languages?.length) tags.push(...navigator.languages);
+    else if (navigator.language) tags.push(navigator.language);
+  }
+  if (typeof document !== 'undefined' && document.documentElement.lang) {
+    tags.push(document.documentElement.lang);
+  }
+  return tags;
+}
+
+/** Best available locale for this visitor, or French. */
+export function detectLanguage(available: string[]): string {
+  return matchLocale(getPreferredLanguages(), available) ?? DEFAULT_LANGUAGE;
+}
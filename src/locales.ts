@@ -0,0 +1,194 @@
+import type {
+  ConsentCategoryTexts,
+  ConsentLocale,
+  ConsentTexts,
+  DeclarationTexts,
+  LocalizedText,
+  ResolvedConsentTexts,
+} from './types';
+import { DEFAULT_TEXTS, DEFAULT_DECLARATION_TEXTS, DEFAULT_LANGUAGE } from './defaults';
+import { getParentTags, isRtlLanguage, matchLocale, detectLanguage } from './language';
+
+// ─── Registry ───
+
+const registry = new Map<string, ConsentLocale>();
+
+/**
+ * Adds translation bundles for every `<CookieConsent>` and
+ * `<CookieDeclaration>` on the page. A bundle with the same code replaces
+ * the previous one, built-in French and English included.
+ */
+export function registerLocale(...locales: ConsentLocale[]): void {
+  locales.forEach((locale) => registry.set(locale.code.toLowerCase(), locale));
+}
+
+registerLocale(
+  { code: 'fr', texts: DEFAULT_TEXTS.fr, declaration: DEFAULT_DECLARATION_TEXTS.fr },
+  { code: 'en', texts: DEFAULT_TEXTS.en, declaration: DEFAULT_DECLARATION_TEXTS.en },
+);
+
+function findLocale(code: string, extra: ConsentLocale[]): ConsentLocale | undefined {
+  const key = code.toLowerCase();
+  return extra.find((locale) => locale.code.toLowerCase() === key) ?? registry.get(key);
+}
+
+/** Codes of the registered locales and of `extra`. */
+export function getLocaleCodes(extra: ConsentLocale[] = []): string[] {
+  const codes = extra.map((locale) => locale.code);
+  registry.forEach((locale) => {
+    const key = locale.code.toLowerCase();
+    if (!codes.some((code) => code.toLowerCase() === key)) codes.push(locale.code);
+  });
+  return codes;
+}
+
+/**
+ * Resolves a `lang` prop to an available locale code: `'auto'` detects
+ * it, other tags are matched (`'fr-CA'` → `'fr'`). Unknown languages give
+ * French.
+ */
+export function resolveLanguage(lang: string, extra: ConsentLocale[] = []): string {
+  const codes = getLocaleCodes(extra);
+  if (lang === 'auto') return detectLanguage(codes);
+  return matchLocale([lang], codes) ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * Bundles to read strings from, most specific first: the locale, its
+ * parent tags, its `fallback` locales, then French.
+ */
+export function getLocaleChain(code: string, extra: ConsentLocale[] = []): ConsentLocale[] {
+  const chain: ConsentLocale[] = [];
+  const visit = (tag: string) => {
+    getParentTags(tag).forEach((parent) => {
+      const locale = findLocale(parent, extra);
+      if (!locale || chain.includes(locale)) return;
+      chain.push(locale);
+      if (locale.fallback) visit(locale.fallback);
+    });
+  };
+  visit(code);
+  visit(DEFAULT_LANGUAGE);
+  return chain;
+}
+
+/** Text direction of a locale. */
+export function getLocaleDir(code: string, extra: ConsentLocale[] = []): 'ltr' | 'rtl' {
+  return findLocale(code, extra)?.dir ?? (isRtlLanguage(code) ? 'rtl' : 'ltr');
+}
+
+// ─── Text resolution ───
+
+const TEXT_KEYS: Array<keyof ResolvedConsentTexts> = [
+  'title',
+  'message',
+  'accept',
+  'reject',
+  'customize',
+  'preferencesTitle',
+  'save',
+  'alwaysActive',
+  'browserSignal',
+  'policyUpdated',
+  'privacy',
+  'powered',
+  'doNotSell',
+  'gateMessage',
+  'gateLoad',
+  'gateThirdParty',
+  'vendors',
+  'vendorPrivacy',
+  'bannerLabel',
+  'consentSaved',
+  'reconsentLabel',
+];
+
+const DECLARATION_KEYS: Array<keyof Omit<DeclarationTexts, 'categories'>> = [
+  'name',
+  'provider',
+  'purpose',
+  'duration',
+  'empty',
+];
+
+// Per-locale overrides (e.g. `textsFr`, then a jurisdiction's wording)
+// come before the bundle they adjust
+function collect<T>(
+  chain: ConsentLocale[],
+  pick: (locale: ConsentLocale) => T | undefined,
+  overrides: Array<Record<string, T | undefined>>,
+): T[] {
+  const sources: T[] = [];
+  chain.forEach((locale) => {
+    overrides.forEach((map) => {
+      const override = map[locale.code.toLowerCase()];
+      if (override) sources.push(override);
+    });
+    const own = pick(locale);
+    if (own) sources.push(own);
+  });
+  return sources;
+}
+
+function categoryTexts(
+  sources: Array<{ categories?: Record<string, ConsentCategoryTexts> }>,
+  id: string,
+): Required<ConsentCategoryTexts> {
+  let label: string | undefined;
+  let description: string | undefined;
+  sources.forEach((source) => {
+    label = label || source.categories?.[id]?.label;
+    description = description || source.categories?.[id]?.description;
+  });
+  return { label: label || id, description: description || '' };
+}
+
+/**
+ * Banner strings along a locale chain, each from the first source that
+ * has it. Earlier override maps win.
+ */
+export function resolveConsentTexts(
+  chain: ConsentLocale[],
+  ...overrides: Array<Record<string, ConsentTexts | undefined>>
+) {
+  const sources = collect(chain, (locale) => locale.texts, overrides);
+  const texts = {} as ResolvedConsentTexts;
+  TEXT_KEYS.forEach((key) => {
+    texts[key] = sources.find((source) => source[key])?.[key] ?? '';
+  });
+  return {
+    texts,
+    policyChanges: sources.find((source) => source.policyChanges)?.policyChanges,
+    getCategoryTexts: (id: string) => categoryTexts(sources, id),
+  };
+}
+
+/**
+ * `<CookieDeclaration>` strings along a locale chain. Category texts fall
+ * back to the banner's.
+ */
+export function resolveDeclarationTexts(
+  chain: ConsentLocale[],
+  ...overrides: Array<Record<string, DeclarationTexts | undefined>>
+) {
+  const sources = collect(chain, (locale) => locale.declaration, overrides);
+  const texts = {} as Required<Omit<DeclarationTexts, 'categories'>>;
+  DECLARATION_KEYS.forEach((key) => {
+    texts[key] = sources.find((source) => source[key])?.[key] ?? '';
+  });
+  const categorySources = [...sources, ...chain.map((locale) => locale.texts)];
+  return {
+    texts,
+    getCategoryTexts: (id: string) => categoryTexts(categorySources, id),
+  };
+}
+
+/** Picks the best translation of a `LocalizedText` along a locale chain. */
+export function localize(text: LocalizedText, chain: ConsentLocale[]): string {
+  if (typeof text === 'string') return text;
+  for (const locale of chain) {
+    const value = text[locale.code] ?? text[locale.code.toLowerCase()];
+    if (value) return value;
+  }
+  return text.en ?? Object.values(text).find(Boolean) ?? '';
+}
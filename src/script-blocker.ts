@@ -0,0 +1,136 @@
+import type { ConsentCategory } from './types';
+import {
+  SCRIPT_CATEGORY_ATTRIBUTE,
+  SCRIPT_VENDOR_ATTRIBUTE,
+  SCRIPT_ACTIVATED_ATTRIBUTE,
+} from './defaults';
+
+// ─── Types ───
+
+/** Returns whether a consent category is currently granted. */
+export type CategoryCheck = (category: ConsentCategory) => boolean;
+
+/** Returns whether a vendor is currently allowed. */
+export type VendorCheck = (vendor: string) => boolean;
+
+// ─── Helpers ───
+
+const BLOCKED_SELECTOR = [SCRIPT_CATEGORY_ATTRIBUTE, SCRIPT_VENDOR_ATTRIBUTE]
+  .map(
+    (attribute) =>
+      `script[type="text/plain"][${attribute}]:not([${SCRIPT_ACTIVATED_ATTRIBUTE}])`,
+  )
+  .join(',');
+
+const readList = (el: Element, attribute: string): string[] =>
+  (el.getAttribute(attribute) ?? '').split(/\s+/).filter(Boolean);
+
+// A script may list several categories and vendors (space-separated); all
+// must be granted. Without a vendor check, vendor scripts stay blocked.
+function isAllowed(
+  el: Element,
+  isGranted: CategoryCheck,
+  isVendorAllowed?: VendorCheck,
+): boolean {
+  const categories = readList(el, SCRIPT_CATEGORY_ATTRIBUTE);
+  const vendors = readList(el, SCRIPT_VENDOR_ATTRIBUTE);
+  return (
+    categories.length + vendors.length > 0 &&
+    categories.every(isGranted) &&
+    vendors.every((vendor) => isVendorAllowed?.(vendor) === true)
+  );
+}
+
+// Activations run one at a time, in document order: like in a parsed page,
+// a script waits for the external scripts before it (unless they're async).
+let queue: Promise<void> = Promise.resolve();
+
+// Browsers never execute a script whose type was changed after insertion,
+// so a fresh copy is inserted after the blocked element. The original stays
+// in place, marked as activated: it may be rendered by React, which breaks
+// when its nodes are swapped out.
+function activate(el: HTMLScriptElement): void {
+  el.setAttribute(SCRIPT_ACTIVATED_ATTRIBUTE, '');
+  queue = queue.then(
+    () =>
+      new Promise<void>((resolve) => {
+        // Unmounted while waiting for its turn
+        if (!el.parentNode) return resolve();
+        const ns = document.createElement('script');
+        Array.from(el.attributes).forEach((attr) => {
+          if (!['type', 'data-type', 'id'].includes(attr.name)) {
+            ns.setAttribute(attr.name, attr.value);
+          }
+        });
+        const type = el.getAttribute('data-type');
+        if (type) ns.type = type;
+        if (el.src && !el.hasAttribute('async')) {
+          ns.async = false;
+          ns.addEventListener('load', () => resolve());
+          ns.addEventListener('error', () => resolve());
+        } else {
+          if (!el.src) ns.textContent = el.text || el.textContent || '';
+          resolve();
+        }
+        el.parentNode.insertBefore(ns, el.nextSibling);
+      }),
+  );
+}
+
+// ─── Public API ───
+
+/**
+ * Activates every blocked script under `root` whose category is granted.
+ *
+ * Blocked scripts are written with `type="text/plain"` and a
+ * `data-consent-category` attribute, a `data-consent-vendor` attribute
+ * (checked with `isVendorAllowed`), or both. Use `data-type="module"` to
+ * restore a non-classic script type on activation.
+ *
+ * @example
+ * ```html
+ * <script type="text/plain" data-consent-category="analytics"
+ *   src="https://www.googletagmanager.com/gtag/js?id=G-XXXXX"></script>
+ * <script type="text/plain" data-consent-vendor="hotjar"
+ *   src="/hotjar.js"></script>
+ * ```
+ */
+export function activateBlockedScripts(
+  isGranted: CategoryCheck,
+  root: ParentNode = document,
+  isVendorAllowed?: VendorCheck,
+): void {
+  root.querySelectorAll<HTMLScriptElement>(BLOCKED_SELECTOR).forEach((el) => {
+    if (isAllowed(el, isGranted, isVendorAllowed)) activate(el);
+  });
+}
+
+/**
+ * Activates granted blocked scripts already in the page, then watches for
+ * blocked scripts added later (client-side navigation, CMS widgets).
+ * Returns a function that stops watching.
+ */
+export function observeBlockedScripts(
+  isGranted: CategoryCheck,
+  isVendorAllowed?: VendorCheck,
+): () => void {
+  activateBlockedScripts(isGranted, document, isVendorAllowed);
+
+  const observer = new MutationObserver((mutations) => {
+    mutations.forEach((m) => {
+      m.addedNodes.forEach((node) => {
+        if (!(node instanceof Element)) return;
+        if (node.matches(BLOCKED_SELECTOR)) {
+          if (isAllowed(node, isGranted, isVendorAllowed)) {
+            activate(node as HTMLScriptElement);
+          }
+          return;
+        }
+        activateBlockedScripts(isGranted, node, isVendorAllowed);
+      });
+    });
+  });
+  observer.observe(document.documentElement, { childList: true, subtree: true });
+
+  return () => observer.disconnect();
+}
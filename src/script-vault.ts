@@ -0,0 +1,141 @@
+// ─── Types ───
+
+/** Options for `injectScripts()`. */
+export interface ScriptVaultOptions {
+  /**
+   * Called once an injected tag is ready: an external script, pixel or
+   * iframe when it has loaded, any other tag as soon as it is in the page.
+   */
+  onLoad?: (element: Element) => void;
+  /** Called when an external script, pixel or iframe fails to load. */
+  onError?: (element: Element) => void;
+}
+
+// ─── Registry ───
+
+// Module state outlives remounts and client-side navigations, so a tag is
+// injected once per page load. Pending entries let a second call wait for
+// an external script the first one is still loading.
+const injected = new Map<string, { element: Element; done: Promise<void> }>();
+// Bumped on removal, so a call still waiting on a script stops there
+let generation = 0;
+
+const HEAD_TAGS = ['script', 'link', 'style', 'meta', 'base', 'title'];
+const LOADING_TAGS = ['script', 'img', 'iframe', 'link'];
+
+// An unparsable URL (e.g. `http://[bad`) is kept as written rather than
+// throwing
+function resolveUrl(url: string): string {
+  try {
+    return new URL(url, document.baseURI).href;
+  } catch {
+    return url;
+  }
+}
+
+// External tags are the same tag when they point to the same URL; inline
+// ones when their content matches.
+function getKey(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  const url = el.getAttribute('src') ?? el.getAttribute('href');
+  if (url) return `${tag} ${resolveUrl(url)}`;
+  return `${tag} ${el.textContent ?? ''}`;
+}
+
+// Scripts parsed from HTML never run, so each one is recreated. Other tags
+// are imported from the inert template as they are.
+function createTag(el: Element): Element {
+  if (el.tagName.toLowerCase() !== 'script') return document.importNode(el, true);
+  const ns = document.createElement('script');
+  Array.from(el.attributes).forEach((attr) => ns.setAttribute(attr.name, attr.value));
+  if (!ns.src) ns.textContent = el.textContent ?? '';
+  return ns;
+}
+
+// Resolves once the tag has loaded or failed; never rejects, so one broken
+// tag doesn't stop the ones after it.
+function insert(el: Element, options: ScriptVaultOptions): Promise<void> {
+  const tag = el.tagName.toLowerCase();
+  const loads =
+    LOADING_TAGS.includes(tag) && (el.hasAttribute('src') || el.hasAttribute('href'));
+  const parent = HEAD_TAGS.includes(tag) ? document.head : document.body;
+
+  if (!loads) {
+    parent.appendChild(el);
+    options.onLoad?.(el);
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    el.addEventListener('load', () => {
+      options.onLoad?.(el);
+      resolve();
+    });
+    el.addEventListener('error', () => {
+      options.onError?.(el);
+      resolve();
+    });
+    parent.appendChild(el);
+  });
+}
+
+// ─── Public API ───
+
+/**
+ * Injects the tags of an HTML string in document order: scripts, tracking
+ * pixels (`<img>`), iframes, styles and `<noscript>` blocks. Each external
+ * script has loaded (or failed) before the next tag goes in, so an inline
+ * `gtag('config')` always finds gtag.js defined. Scripts, styles and links
+ * go to `<head>`, everything else to the end of `<body>`.
+ *
+ * A tag already injected on this page (same URL, or same inline content) is
+ * skipped, across remounts and client-side navigations. The returned promise
+ * resolves once every script has run; pixels and iframes don't hold it up.
+ *
+ * @example
+ * ```ts
+ * await injectScripts(`
+ *   <script async src="https://www.googletagmanager.com/gtag/js?id=G-XXXX"></script>
+ *   <script>gtag('config', 'G-XXXX');</script>
+ * `, { onError: (el) => console.warn('Blocked by the browser', el) });
+ * ```
+ */
+export async function injectScripts(
+  html: string,
+  options: ScriptVaultOptions = {},
+): Promise<void> {
+  // A template keeps pixels and iframes from loading while the string is parsed
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const started = generation;
+
+  for (const el of Array.from(template.content.children)) {
+    if (generation !== started) return;
+    const key = getKey(el);
+    const isScript = el.tagName.toLowerCase() === 'script';
+    const pending = injected.get(key);
+    if (pending) {
+      if (isScript) await pending.done;
+      continue;
+    }
+    const element = createTag(el);
+    const done = insert(element, options);
+    injected.set(key, { element, done });
+    if (isScript) await done;
+  }
+}
+
+/**
+ * Removes every tag `injectScripts()` added and returns them, so a later
+ * call injects them again. Pixels and iframes stop at once; code a script
+ * already ran keeps running until a teardown undoes it or the page reloads.
+ */
+export function removeInjectedScripts(): Element[] {
+  const removed: Element[] = [];
+  injected.forEach(({ element }) => {
+    element.parentNode?.removeChild(element);
+    removed.push(element);
+  });
+  injected.clear();
+  generation += 1;
+  return removed;
+}
@@ -0,0 +1,193 @@
+import type { ConsentCategories, ConsentCategory, ConsentSummary } from './types';
+import {
+  STORAGE_KEY,
+  STORAGE_DATE_KEY,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_ID_KEY,
+  STORAGE_VERSION_KEY,
+  DEFAULT_EXPIRY_DAYS,
+} from './defaults';
+import { parseStoredCategories, summarizeCategories } from './categories';
+
+// ─── Types ───
+
+/**
+ * Anything with a cookie-style `get(name)`, such as Next.js `cookies()`
+ * (`RequestCookies` / `ReadonlyRequestCookies`) or `request.cookies`.
+ */
+export interface CookieReader {
+  get: (name: string) => { value: string } | undefined;
+}
+
+/** Anything with a `Headers`-style `get(name)`, such as Next.js `headers()`. */
+export interface HeaderReader {
+  get: (name: string) => string | null;
+}
+
+/** Where `parseConsent` reads cookies from. */
+export type ConsentSource = string | Headers | CookieReader | null | undefined;
+
+/** Options for `parseConsent()`. */
+export interface ParseConsentOptions {
+  /**
+   * Number of days before consent expires.
+   * Must match the `expiryDays` prop on `<CookieConsent>`.
+   * @default 365
+   */
+  expiryDays?: number;
+  /**
+   * Current policy version. Must match the `policyVersion` prop on
+   * `<CookieConsent>`.
+   */
+  policyVersion?: string;
+}
+
+/** Consent as seen by the server. */
+export interface ServerConsent {
+  /** Consent summary, or `null` if no valid consent exists. */
+  consent: ConsentSummary | null;
+  /** Per-category states, or `null` if no valid consent exists. */
+  categories: ConsentCategories | null;
+  /** Whether valid (non-expired, current-version) consent exists. */
+  hasConsent: boolean;
+  /** Whether a category is granted. `necessary` is always granted. */
+  isGranted: (category: ConsentCategory) => boolean;
+  /** Id of the consent record, when stored. */
+  consentId: string | null;
+  /** Policy version the consent was given for, when stored. */
+  policyVersion: string | null;
+  /** When consent was given (ms since epoch), or `null`. */
+  timestamp: number | null;
+}
+
+// ─── Helpers ───
+
+function parseCookieHeader(header: string, name: string): string | null {
+  const prefix = `${name}=`;
+  const match = header
+    .split(';')
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(prefix));
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match.slice(prefix.length));
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(source: ConsentSource, name: string): string | null {
+  if (!source) return null;
+  if (typeof source === 'string') return parseCookieHeader(source, name);
+  // Headers has `append`; cookie stores don't
+  if ('append' in source) return parseCookieHeader(source.get('cookie') ?? '', name);
+  const value = source.get(name)?.value;
+  if (value == null) return null;
+  // Cookie stores decode values already; only a still-encoded value needs it
+  try {
+    return value.includes('%') ? decodeURIComponent(value) : value;
+  } catch {
+    return value;
+  }
+}
+
+// ─── Public API ───
+
+/**
+ * Reads consent stored by `createCookieStorage()` on the server, from a
+ * `Cookie` header, a `Headers` object or a cookie store. Checks expiry and
+ * policy version the same way `<CookieConsent>` does.
+ *
+ * Import it from `cookie-app/server` — that entry point has no React or
+ * browser code and is safe in Server Components, route handlers and edge
+ * middleware.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx (Next.js App Router)
+ * import { cookies } from 'next/headers';
+ * import { parseConsent } from 'cookie-app/server';
+ *
+ * export default async function RootLayout({ children }) {
+ *   const consent = parseConsent(await cookies(), { policyVersion: '2025-01' });
+ *   return (
+ *     <html lang="fr">
+ *       <head>
+ *         {consent.isGranted('analytics') && (
+ *           <script async src="https://www.googletagmanager.com/gtag/js?id=G-XXXXX" />
+ *         )}
+ *       </head>
+ *       <body>{children}</body>
+ *     </html>
+ *   );
+ * }
+ * ```
+ */
+export function parseConsent(
+  source: ConsentSource,
+  options: ParseConsentOptions = {},
+): ServerConsent {
+  const expiryDays = options.expiryDays ?? DEFAULT_EXPIRY_DAYS;
+  const level = readCookie(source, STORAGE_KEY);
+  const date = readCookie(source, STORAGE_DATE_KEY);
+  const version = readCookie(source, STORAGE_VERSION_KEY);
+  const timestamp = date ? parseInt(date, 10) : NaN;
+
+  const isValid =
+    !!level &&
+    !Number.isNaN(timestamp) &&
+    (Date.now() - timestamp) / (1000 * 60 * 60 * 24) <= expiryDays &&
+    (!options.policyVersion || version === options.policyVersion);
+
+  const categories = isValid
+    ? parseStoredCategories(level, readCookie(source, STORAGE_CATEGORIES_KEY))
+    : null;
+
+  return {
+    consent: categories ? summarizeCategories(categories) : null,
+    categories,
+    hasConsent: categories !== null,
+    isGranted: (category) => category === 'necessary' || categories?.[category] === true,
+    consentId: readCookie(source, STORAGE_ID_KEY),
+    policyVersion: version,
+    timestamp: Number.isNaN(timestamp) ? null : timestamp,
+  };
+}
+
+// Country and subdivision headers added by common hosts and CDNs
+const REGION_HEADERS: Array<[country: string, subdivision: string]> = [
+  ['x-vercel-ip-country', 'x-vercel-ip-country-region'],
+  ['cf-ipcountry', 'cf-region-code'],
+  ['cloudfront-viewer-country', 'cloudfront-viewer-country-region'],
+];
+
+/**
+ * Reads the visitor's region from geolocation headers set by Vercel,
+ * Cloudflare or CloudFront, as `'CA-QC'` or `'FR'`. Returns `null` when
+ * none is present. Pass the result to the `region` prop.
+ *
+ * @example
+ * ```tsx
+ * import { headers } from 'next/headers';
+ * import { getRegionFromHeaders } from 'cookie-app/server';
+ *
+ * const region = getRegionFromHeaders(await headers());
+ * // <CookieConsent region={region ?? regionFromTimezone} jurisdictions={...} />
+ * ```
+ */
+export function getRegionFromHeaders(headers: HeaderReader): string | null {
+  for (const [countryHeader, subdivisionHeader] of REGION_HEADERS) {
+    const country = headers.get(countryHeader)?.trim().toUpperCase();
+    // Cloudflare reports unknown and Tor traffic as XX / T1
+    if (!country || !/^[A-Z]{2}$/.test(country) || country === 'XX' || country === 'T1') {
+      continue;
+    }
+    const subdivision = headers.get(subdivisionHeader)?.trim().toUpperCase();
+    return subdivision ? `${country}-${subdivision}` : country;
+  }
+  return null;
+}
+
+export { getConsentHubHtml } from './consent-hub';
+export type { ConsentHubOptions } from './consent-hub';
+export type { ConsentCategories, ConsentCategory, ConsentSummary } from './types';
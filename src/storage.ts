@@ -0,0 +1,248 @@
+import type { ConsentCategories, ConsentStorage, ConsentVendors } from './types';
+import {
+  STORAGE_KEY,
+  STORAGE_DATE_KEY,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_ID_KEY,
+  STORAGE_VERSION_KEY,
+  STORAGE_TC_STRING_KEY,
+  STORAGE_GPP_STRING_KEY,
+  STORAGE_VENDORS_KEY,
+  DEFAULT_EXPIRY_DAYS,
+} from './defaults';
+import { parseStoredCategories, summarizeCategories } from './categories';
+import { parseStoredVendors } from './vendors';
+
+// ─── Types ───
+
+/** Options for `createCookieStorage()`. */
+export interface CookieStorageOptions {
+  /**
+   * Cookie domain. Use the parent domain (e.g. `'.example.com'`) to share
+   * consent across subdomains, or `'auto'` to detect it: the broadest
+   * domain the browser accepts a cookie for (`example.co.uk` on
+   * `shop.example.co.uk`). Defaults to the current host only.
+   */
+  domain?: string;
+  /** Cookie path. @default '/' */
+  path?: string;
+  /** SameSite attribute. `'None'` forces `Secure`. @default 'Lax' */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Secure attribute. Defaults to `true` on HTTPS pages. */
+  secure?: boolean;
+  /**
+   * Cookie lifetime in days. Should be at least `expiryDays`.
+   * @default 365
+   */
+  maxAgeDays?: number;
+}
+
+// ─── Helpers ───
+
+const DOMAIN_PROBE = 'loi25-consent-probe';
+
+// Browsers refuse cookies for public suffixes (`com`, `co.uk`), so the
+// first parent domain that keeps a probe cookie is the registrable one.
+function detectCookieDomain(): string | undefined {
+  if (typeof location === 'undefined') return undefined;
+  const host = location.hostname;
+  // IP addresses and single-label hosts (localhost) have no parent domain
+  if (!host.includes('.') || /^[\d.]+$/.test(host) || host.includes(':')) return undefined;
+  const labels = host.split('.');
+  for (let i = labels.length - 2; i >= 0; i--) {
+    const candidate = labels.slice(i).join('.');
+    document.cookie = `${DOMAIN_PROBE}=1; Path=/; Domain=${candidate}; SameSite=Lax`;
+    const accepted = document.cookie.split('; ').includes(`${DOMAIN_PROBE}=1`);
+    document.cookie = `${DOMAIN_PROBE}=; Path=/; Domain=${candidate}; Max-Age=0`;
+    if (accepted) return candidate;
+  }
+  return undefined;
+}
+
+// ─── Adapters ───
+
+function createWebStorage(name: 'localStorage' | 'sessionStorage'): ConsentStorage {
+  const get = (): Storage | null => {
+    try {
+      return typeof window === 'undefined' ? null : window[name];
+    } catch {
+      return null;
+    }
+  };
+  return {
+    getItem(key) {
+      try {
+        return get()?.getItem(key) ?? null;
+      } catch {
+        return null;
+      }
+    },
+    setItem(key, value) {
+      try {
+        get()?.setItem(key, value);
+      } catch {
+        // Silently fail if storage is unavailable (private mode, quota)
+      }
+    },
+    removeItem(key) {
+      try {
+        get()?.removeItem(key);
+      } catch {
+        // Silently fail if storage is unavailable
+      }
+    },
+    inlineGetter: `function(k){return ${name}.getItem(k);}`,
+  };
+}
+
+/** Persists consent in `localStorage` (the default). */
+export function createLocalStorage(): ConsentStorage {
+  return createWebStorage('localStorage');
+}
+
+/** Persists consent in `sessionStorage`, so it is asked again every session. */
+export function createSessionStorage(): ConsentStorage {
+  return createWebStorage('sessionStorage');
+}
+
+/**
+ * Persists consent in first-party cookies, one per storage key. Unlike
+ * localStorage, cookies are sent to the server (see `parseConsent`) and can
+ * be shared across subdomains with `domain`.
+ *
+ * @example
+ * ```tsx
+ * // Shared by www., shop. and app.example.com. `'auto'` detects the domain.
+ * const storage = createCookieStorage({ domain: '.example.com' });
+ *
+ * <CookieConsent storage={storage} />
+ * ```
+ */
+export function createCookieStorage(options: CookieStorageOptions = {}): ConsentStorage {
+  const { path = '/', sameSite = 'Lax', maxAgeDays = DEFAULT_EXPIRY_DAYS } = options;
+  let domain = options.domain === 'auto' ? undefined : options.domain;
+  let domainDetected = options.domain !== 'auto';
+
+  const attributes = (maxAge: number): string => {
+    if (!domainDetected) {
+      domain = detectCookieDomain();
+      domainDetected = true;
+    }
+    const secure =
+      options.secure ??
+      (sameSite === 'None' ||
+        (typeof location !== 'undefined' && location.protocol === 'https:'));
+    return [
+      `Path=${path}`,
+      domain ? `Domain=${domain}` : '',
+      `Max-Age=${maxAge}`,
+      `SameSite=${sameSite}`,
+      secure || sameSite === 'None' ? 'Secure' : '',
+    ]
+      .filter(Boolean)
+      .join('; ');
+  };
+
+  return {
+    getItem(key) {
+      if (typeof document === 'undefined') return null;
+      const prefix = `${key}=`;
+      const match = document.cookie.split('; ').find((c) => c.startsWith(prefix));
+      if (!match) return null;
+      try {
+        return decodeURIComponent(match.slice(prefix.length));
+      } catch {
+        return null;
+      }
+    },
+    setItem(key, value) {
+      if (typeof document === 'undefined') return;
+      document.cookie = `${key}=${encodeURIComponent(value)}; ${attributes(
+        Math.round(maxAgeDays * 24 * 60 * 60),
+      )}`;
+    },
+    removeItem(key) {
+      if (typeof document === 'undefined') return;
+      document.cookie = `${key}=; ${attributes(0)}`;
+    },
+    inlineGetter:
+      "function(k){var m=document.cookie.match(new RegExp('(?:^|; )'+k+'=([^;]*)'));return m?decodeURIComponent(m[1]):null;}",
+  };
+}
+
+/**
+ * Keeps consent in memory only. Nothing survives a page load, which suits
+ * tests and kiosk-style pages.
+ */
+export function createMemoryStorage(): ConsentStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+/** Adapter used when no `storage` is configured. */
+export const defaultStorage = createLocalStorage();
+
+// ─── Stored consent helpers ───
+
+export function isExpired(storage: ConsentStorage, expiryDays: number): boolean {
+  const d = storage.getItem(STORAGE_DATE_KEY);
+  if (!d) return true;
+  const age = (Date.now() - parseInt(d, 10)) / (1000 * 60 * 60 * 24);
+  return age > expiryDays;
+}
+
+export function isCurrentVersion(storage: ConsentStorage, policyVersion?: string): boolean {
+  if (!policyVersion) return true;
+  return storage.getItem(STORAGE_VERSION_KEY) === policyVersion;
+}
+
+/** Reads stored category states, ignoring expiry and policy version. */
+export function readStoredCategories(storage: ConsentStorage): ConsentCategories | null {
+  return parseStoredCategories(
+    storage.getItem(STORAGE_KEY),
+    storage.getItem(STORAGE_CATEGORIES_KEY),
+  );
+}
+
+/** Reads stored vendor states, ignoring expiry and policy version. */
+export function readStoredVendors(storage: ConsentStorage): ConsentVendors | null {
+  return parseStoredVendors(storage.getItem(STORAGE_VENDORS_KEY));
+}
+
+/** Stores a consent decision. */
+export function writeStoredConsent(
+  storage: ConsentStorage,
+  categories: ConsentCategories,
+  details: { consentId?: string; policyVersion?: string; vendors?: ConsentVendors } = {},
+): void {
+  storage.setItem(STORAGE_KEY, summarizeCategories(categories));
+  storage.setItem(STORAGE_DATE_KEY, Date.now().toString());
+  storage.setItem(STORAGE_CATEGORIES_KEY, JSON.stringify(categories));
+  if (details.consentId) storage.setItem(STORAGE_ID_KEY, details.consentId);
+  else storage.removeItem(STORAGE_ID_KEY);
+  if (details.policyVersion) storage.setItem(STORAGE_VERSION_KEY, details.policyVersion);
+  else storage.removeItem(STORAGE_VERSION_KEY);
+  if (details.vendors && Object.keys(details.vendors).length > 0) {
+    storage.setItem(STORAGE_VENDORS_KEY, JSON.stringify(details.vendors));
+  } else storage.removeItem(STORAGE_VENDORS_KEY);
+}
+
+/** Removes every stored consent key. */
+export function clearStoredConsent(storage: ConsentStorage): void {
+  storage.removeItem(STORAGE_KEY);
+  storage.removeItem(STORAGE_DATE_KEY);
+  storage.removeItem(STORAGE_CATEGORIES_KEY);
+  storage.removeItem(STORAGE_ID_KEY);
+  storage.removeItem(STORAGE_VERSION_KEY);
+  storage.removeItem(STORAGE_TC_STRING_KEY);
+  storage.removeItem(STORAGE_GPP_STRING_KEY);
+  storage.removeItem(STORAGE_VENDORS_KEY);
+}
@@ -0,0 +1,127 @@
+import {
+  int,
+  bool,
+  letters,
+  bitfield,
+  vendorSection,
+  toBase64Url,
+  fromBase64Url,
+  createReader,
+} from './bits';
+
+// ─── Types ───
+
+/** Decoded content of an IAB TCF v2 TC string (core and disclosed vendors). */
+export interface TCModel {
+  /** TC string format version. Always `2`. */
+  version: number;
+  created: Date;
+  lastUpdated: Date;
+  /** CMP id registered with IAB Europe. */
+  cmpId: number;
+  cmpVersion: number;
+  /** Screen number in the CMP where consent was given. */
+  consentScreen: number;
+  /** Two-letter ISO 639-1 language, upper case. */
+  consentLanguage: string;
+  vendorListVersion: number;
+  /** TCF policy version (`4` for TCF v2.2). */
+  policyVersion: number;
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  /** Opted-in special feature ids. */
+  specialFeatureOptins: number[];
+  /** Consented purpose ids. */
+  purposeConsents: number[];
+  /** Purpose ids with legitimate interest established (not objected to). */
+  purposeLegitimateInterests: number[];
+  purposeOneTreatment: boolean;
+  /** Two-letter ISO 3166-1 publisher country, upper case. */
+  publisherCountryCode: string;
+  /** Consented vendor ids. */
+  vendorConsents: number[];
+  /** Vendor ids with legitimate interest established. */
+  vendorLegitimateInterests: number[];
+  /** Vendor ids disclosed to the visitor. Written as a separate segment. */
+  disclosedVendors?: number[];
+}
+
+const SEGMENT_DISCLOSED_VENDORS = 1;
+
+// ─── Public API ───
+
+/**
+ * Encodes a TC string: the core segment, followed by the disclosed vendors
+ * segment when `model.disclosedVendors` is set. Publisher restrictions are
+ * not written.
+ */
+export function encodeTCString(model: TCModel): string {
+  const core =
+    int(model.version, 6) +
+    int(model.created.getTime() / 100, 36) +
+    int(model.lastUpdated.getTime() / 100, 36) +
+    int(model.cmpId, 12) +
+    int(model.cmpVersion, 12) +
+    int(model.consentScreen, 6) +
+    letters(model.consentLanguage) +
+    int(model.vendorListVersion, 12) +
+    int(model.policyVersion, 6) +
+    bool(model.isServiceSpecific) +
+    bool(model.useNonStandardTexts) +
+    bitfield(model.specialFeatureOptins, 12) +
+    bitfield(model.purposeConsents, 24) +
+    bitfield(model.purposeLegitimateInterests, 24) +
+    bool(model.purposeOneTreatment) +
+    letters(model.publisherCountryCode) +
+    vendorSection(model.vendorConsents) +
+    vendorSection(model.vendorLegitimateInterests) +
+    int(0, 12); // No publisher restrictions
+
+  const segments = [toBase64Url(core)];
+  if (model.disclosedVendors) {
+    segments.push(
+      toBase64Url(int(SEGMENT_DISCLOSED_VENDORS, 3) + vendorSection(model.disclosedVendors)),
+    );
+  }
+  return segments.join('.');
+}
+
+/**
+ * Decodes a TC string. Throws if the string is malformed or is not a
+ * version 2 string. Publisher restrictions and segments other than the
+ * disclosed vendors are skipped.
+ */
+export function decodeTCString(tcString: string): TCModel {
+  const [coreSegment, ...segments] = tcString.split('.');
+  const r = createReader(fromBase64Url(coreSegment));
+  const version = r.int(6);
+  if (version !== 2) throw new Error(`Unsupported TC string version ${version}`);
+
+  const model: TCModel = {
+    version,
+    created: new Date(r.int(36) * 100),
+    lastUpdated: new Date(r.int(36) * 100),
+    cmpId: r.int(12),
+    cmpVersion: r.int(12),
+    consentScreen: r.int(6),
+    consentLanguage: r.letters(),
+    vendorListVersion: r.int(12),
+    policyVersion: r.int(6),
+    isServiceSpecific: r.bool(),
+    useNonStandardTexts: r.bool(),
+    specialFeatureOptins: r.bitfield(12),
+    purposeConsents: r.bitfield(24),
+    purposeLegitimateInterests: r.bitfield(24),
+    purposeOneTreatment: r.bool(),
+    publisherCountryCode: r.letters(),
+    vendorConsents: r.vendors(),
+    vendorLegitimateInterests: r.vendors(),
+  };
+
+  segments.forEach((segment) => {
+    const s = createReader(fromBase64Url(segment));
+    if (s.int(3) === SEGMENT_DISCLOSED_VENDORS) model.disclosedVendors = s.vendors();
+  });
+
+  return model;
+}
@@ -0,0 +1,454 @@
+import type {
+  ConsentCategories,
+  ConsentCategory,
+  ConsentStorage,
+  GvlVendor,
+  TcfOptions,
+} from './types';
+import { STORAGE_DATE_KEY, STORAGE_TC_STRING_KEY } from './defaults';
+import { defaultStorage } from './storage';
+import { encodeTCString, decodeTCString } from './tc-string';
+import type { TCModel } from './tc-string';
+
+// ─── Types ───
+
+/** `eventStatus` reported to `__tcfapi` listeners. */
+export type TcfEventStatus = 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+
+/** Data returned by `getTCData` and passed to `addEventListener` callbacks. */
+export interface TCData {
+  tcString: string;
+  tcfPolicyVersion: number;
+  cmpId: number;
+  cmpVersion: number;
+  gdprApplies: boolean;
+  eventStatus: TcfEventStatus;
+  cmpStatus: 'loaded';
+  listenerId?: number;
+  isServiceSpecific: boolean;
+  useNonStandardTexts: boolean;
+  publisherCC: string;
+  purposeOneTreatment: boolean;
+  purpose: {
+    consents: Record<number, boolean>;
+    legitimateInterests: Record<number, boolean>;
+  };
+  vendor: {
+    consents: Record<number, boolean>;
+    legitimateInterests: Record<number, boolean>;
+  };
+  specialFeatureOptins: Record<number, boolean>;
+  publisher: {
+    consents: Record<number, boolean>;
+    legitimateInterests: Record<number, boolean>;
+    customPurpose: {
+      consents: Record<number, boolean>;
+      legitimateInterests: Record<number, boolean>;
+    };
+    restrictions: Record<number, Record<number, number>>;
+  };
+}
+
+/** Data returned by the `ping` command. */
+export interface TcfPingReturn {
+  gdprApplies: boolean;
+  cmpLoaded: boolean;
+  cmpStatus: 'stub' | 'loaded';
+  displayStatus: 'visible' | 'hidden';
+  apiVersion: '2.2';
+  cmpVersion?: number;
+  cmpId?: number;
+  gvlVersion?: number;
+  tcfPolicyVersion?: number;
+}
+
+/** Handle returned by `installTcfApi()`. */
+export interface TcfApi {
+  /**
+   * Publishes the visitor's choice (or `null` before one is made) to
+   * `__tcfapi` callers and returns the TC string. The string is stored
+   * unless the banner is only being shown.
+   */
+  update: (
+    categories: ConsentCategories | null,
+    eventStatus: TcfEventStatus,
+    language: string,
+  ) => string;
+  /** Removes `window.__tcfapi`, its message listener and the locator frame. */
+  destroy: () => void;
+}
+
+type TcfCallback = (returnValue: unknown, success: boolean) => void;
+
+type TcfCommand = (
+  command: string,
+  version?: number,
+  callback?: TcfCallback,
+  parameter?: unknown,
+) => unknown;
+
+// ─── Purpose mapping ───
+
+/**
+ * Default category for each TCF v2.2 purpose: measurement purposes follow
+ * `analytics`, product development and delivery follow `functional`, and
+ * storage, advertising and personalisation follow `marketing`.
+ */
+export const TCF_PURPOSE_CATEGORIES: Record<number, ConsentCategory> = {
+  1: 'marketing', // Store and/or access information on a device
+  2: 'marketing', // Use limited data to select advertising
+  3: 'marketing', // Create profiles for personalised advertising
+  4: 'marketing', // Use profiles to select personalised advertising
+  5: 'marketing', // Create profiles to personalise content
+  6: 'marketing', // Use profiles to select personalised content
+  7: 'analytics', // Measure advertising performance
+  8: 'analytics', // Measure content performance
+  9: 'analytics', // Understand audiences through statistics
+  10: 'functional', // Develop and improve services
+  11: 'functional', // Use limited data to select content
+};
+
+/** Default category for each TCF v2.2 special feature. */
+export const TCF_SPECIAL_FEATURE_CATEGORIES: Record<number, ConsentCategory> = {
+  1: 'marketing', // Use precise geolocation data
+  2: 'marketing', // Actively scan device characteristics for identification
+};
+
+// TCF v2.2 forbids legitimate interest for storage and personalisation
+const CONSENT_ONLY_PURPOSES = [1, 3, 4, 5, 6];
+
+// ─── Helpers ───
+
+function getVendors(options: TcfOptions): GvlVendor[] {
+  const { vendors } = options.gvl;
+  const list = options.vendors
+    ? options.vendors.map((id) => vendors[id]).filter(Boolean)
+    : Object.keys(vendors)
+        .map((id) => vendors[id])
+        .filter((v) => !v.deletedDate);
+  return list.sort((a, b) => a.id - b.id);
+}
+
+function flags(ids: number[], enabled: number[]): Record<number, boolean> {
+  const result: Record<number, boolean> = {};
+  ids.forEach((id) => {
+    result[id] = enabled.includes(id);
+  });
+  return result;
+}
+
+function numericKeys(map: Record<string, unknown>): number[] {
+  return Object.keys(map).map(Number);
+}
+
+/**
+ * Builds the TC model for a category choice. Purposes and special features
+ * follow the category they are mapped to; a vendor gets consent when all of
+ * its consent purposes are consented, and legitimate interest when all of
+ * its legitimate-interest purposes are established. `null` (no choice yet)
+ * consents to nothing.
+ */
+export function buildTCModel(
+  categories: ConsentCategories | null,
+  options: TcfOptions,
+  details: { language: string; created?: Date },
+): TCModel {
+  const purposeMap = options.purposes ?? TCF_PURPOSE_CATEGORIES;
+  const featureMap = options.specialFeatures ?? TCF_SPECIAL_FEATURE_CATEGORIES;
+  const isGranted = (category: ConsentCategory) =>
+    !!categories && (category === 'necessary' || categories[category] === true);
+  const grantedIds = (map: Record<number, ConsentCategory>) =>
+    numericKeys(map).filter((id) => isGranted(map[id]));
+
+  const vendors = getVendors(options);
+  const purposeConsents = grantedIds(purposeMap);
+  const purposeLegitimateInterests = purposeConsents.filter(
+    (p) =>
+      !CONSENT_ONLY_PURPOSES.includes(p) &&
+      vendors.some((v) => v.legIntPurposes.includes(p)),
+  );
+  const created = details.created ?? new Date();
+
+  return {
+    version: 2,
+    created,
+    lastUpdated: created,
+    cmpId: options.cmpId,
+    cmpVersion: options.cmpVersion ?? 1,
+    consentScreen: 1,
+    consentLanguage: details.language,
+    vendorListVersion: options.gvl.vendorListVersion,
+    policyVersion: options.gvl.tcfPolicyVersion,
+    isServiceSpecific: true,
+    useNonStandardTexts: false,
+    specialFeatureOptins: grantedIds(featureMap),
+    purposeConsents,
+    purposeLegitimateInterests,
+    purposeOneTreatment: false,
+    publisherCountryCode: options.publisherCountryCode ?? 'CA',
+    vendorConsents: vendors
+      .filter(
+        (v) =>
+          v.purposes.length > 0 &&
+          v.purposes.every((p) => purposeConsents.includes(p)),
+      )
+      .map((v) => v.id),
+    vendorLegitimateInterests: vendors
+      .filter((v) => {
+        const li = v.legIntPurposes.filter((p) => !CONSENT_ONLY_PURPOSES.includes(p));
+        return li.length > 0 && li.every((p) => purposeLegitimateInterests.includes(p));
+      })
+      .map((v) => v.id),
+    disclosedVendors: vendors.map((v) => v.id),
+  };
+}
+
+function toTCData(
+  model: TCModel,
+  tcString: string,
+  options: TcfOptions,
+  eventStatus: TcfEventStatus,
+  extra: { listenerId?: number; vendorIds?: number[] } = {},
+): TCData {
+  const purposeIds = numericKeys(options.gvl.purposes ?? TCF_PURPOSE_CATEGORIES);
+  const featureIds = numericKeys(
+    options.gvl.specialFeatures ?? TCF_SPECIAL_FEATURE_CATEGORIES,
+  );
+  const vendorIds = extra.vendorIds ?? getVendors(options).map((v) => v.id);
+  return {
+    tcString,
+    tcfPolicyVersion: model.policyVersion,
+    cmpId: model.cmpId,
+    cmpVersion: model.cmpVersion,
+    gdprApplies: options.gdprApplies ?? true,
+    eventStatus,
+    cmpStatus: 'loaded',
+    listenerId: extra.listenerId,
+    isServiceSpecific: model.isServiceSpecific,
+    useNonStandardTexts: model.useNonStandardTexts,
+    publisherCC: model.publisherCountryCode,
+    purposeOneTreatment: model.purposeOneTreatment,
+    purpose: {
+      consents: flags(purposeIds, model.purposeConsents),
+      legitimateInterests: flags(purposeIds, model.purposeLegitimateInterests),
+    },
+    vendor: {
+      consents: flags(vendorIds, model.vendorConsents),
+      legitimateInterests: flags(vendorIds, model.vendorLegitimateInterests),
+    },
+    specialFeatureOptins: flags(featureIds, model.specialFeatureOptins),
+    publisher: {
+      consents: {},
+      legitimateInterests: {},
+      customPurpose: { consents: {}, legitimateInterests: {} },
+      restrictions: {},
+    },
+  };
+}
+
+function ensureLocatorFrame(): void {
+  if (document.querySelector('iframe[name="__tcfapiLocator"]')) return;
+  const frame = document.createElement('iframe');
+  frame.name = '__tcfapiLocator';
+  frame.style.display = 'none';
+  document.body.appendChild(frame);
+}
+
+// ─── Stub ───
+
+/**
+ * Returns an inline script that defines a queuing `window.__tcfapi` stub
+ * and the `__tcfapiLocator` frame, so ad tags loaded before React can
+ * already call the API. `installTcfApi()` answers the queued calls.
+ * `getConsentModeScript({ tcf: true })` includes it.
+ */
+export function getTcfStubScript(options: { gdprApplies?: boolean } = {}): string {
+  const gdprApplies = options.gdprApplies ?? true;
+  return [
+    `(function(){`,
+    `  if(typeof window.__tcfapi==='function')return;`,
+    `  var q=[],G=${gdprApplies};`,
+    `  function l(){`,
+    `    if(window.frames.__tcfapiLocator)return;`,
+    `    if(!document.body)return setTimeout(l,5);`,
+    `    var f=document.createElement('iframe');`,
+    `    f.style.display='none';f.name='__tcfapiLocator';`,
+    `    document.body.appendChild(f);`,
+    `  }`,
+    `  l();`,
+    `  window.__tcfapi=function(){`,
+    `    var a=[].slice.call(arguments);`,
+    `    if(!a.length)return q;`,
+    `    if(a[0]==='ping'){`,
+    `      if(typeof a[2]==='function')a[2]({gdprApplies:G,cmpLoaded:false,cmpStatus:'stub',displayStatus:'hidden',apiVersion:'2.2'},true);`,
+    `    }else q.push(a);`,
+    `  };`,
+    `  window.addEventListener('message',function(e){`,
+    `    var s=typeof e.data==='string',d=e.data;`,
+    `    try{if(s)d=JSON.parse(e.data);}catch(x){return;}`,
+    `    var c=d&&d.__tcfapiCall;`,
+    `    if(!c||typeof window.__tcfapi!=='function')return;`,
+    `    window.__tcfapi(c.command,c.version,function(r,ok){`,
+    `      var m={__tcfapiReturn:{returnValue:r,success:ok,callId:c.callId}};`,
+    `      if(e.source)e.source.postMessage(s?JSON.stringify(m):m,'*');`,
+    `    },c.parameter);`,
+    `  },false);`,
+    `})();`,
+  ].join('\n');
+}
+
+// ─── CMP API ───
+
+/**
+ * Installs the IAB TCF v2.2 CMP API on `window.__tcfapi`, replacing the
+ * stub and answering the calls it queued. Supports `ping`, `getTCData`,
+ * `addEventListener` and `removeEventListener`. `<CookieConsent tcf>`
+ * calls this for you.
+ */
+export function installTcfApi(
+  options: TcfOptions,
+  storage: ConsentStorage = defaultStorage,
+): TcfApi {
+  const w = window as unknown as { __tcfapi?: TcfCommand };
+  const queue =
+    typeof w.__tcfapi === 'function' ? (w.__tcfapi as () => unknown)() : undefined;
+  // The stub already relays postMessage calls to whatever __tcfapi is now
+  const hasStub = Array.isArray(queue);
+
+  let current: { model: TCModel; tcString: string; eventStatus: TcfEventStatus } | null =
+    null;
+  let nextListenerId = 1;
+  const listeners = new Map<number, TcfCallback>();
+  const waiting: Array<{ callback: TcfCallback; vendorIds?: number[] }> = [];
+
+  const dataFor = (extra?: { listenerId?: number; vendorIds?: number[] }) =>
+    current
+      ? toTCData(current.model, current.tcString, options, current.eventStatus, extra)
+      : null;
+
+  const api: TcfCommand = (command, version, callback, parameter) => {
+    if (typeof callback !== 'function') return;
+    if (version !== undefined && version !== 2) {
+      callback(null, false);
+      return;
+    }
+    switch (command) {
+      case 'ping': {
+        const ping: TcfPingReturn = {
+          gdprApplies: options.gdprApplies ?? true,
+          cmpLoaded: true,
+          cmpStatus: 'loaded',
+          displayStatus: current?.eventStatus === 'cmpuishown' ? 'visible' : 'hidden',
+          apiVersion: '2.2',
+          cmpVersion: options.cmpVersion ?? 1,
+          cmpId: options.cmpId,
+          gvlVersion: options.gvl.vendorListVersion,
+          tcfPolicyVersion: options.gvl.tcfPolicyVersion,
+        };
+        callback(ping, true);
+        return;
+      }
+      case 'getTCData': {
+        const vendorIds = Array.isArray(parameter) ? (parameter as number[]) : undefined;
+        // Answered once the first choice (or banner display) is published
+        if (!current) waiting.push({ callback, vendorIds });
+        else callback(dataFor({ vendorIds }), true);
+        return;
+      }
+      case 'addEventListener': {
+        const listenerId = nextListenerId++;
+        listeners.set(listenerId, callback);
+        if (current) callback(dataFor({ listenerId }), true);
+        return;
+      }
+      case 'removeEventListener':
+        callback(listeners.delete(parameter as number), true);
+        return;
+      default:
+        callback(null, false);
+    }
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    const isString = typeof event.data === 'string';
+    let data: unknown = event.data;
+    try {
+      if (isString) data = JSON.parse(event.data as string);
+    } catch {
+      return;
+    }
+    const call = (data as { __tcfapiCall?: Record<string, unknown> } | null)?.__tcfapiCall;
+    if (!call) return;
+    api(
+      call.command as string,
+      call.version as number | undefined,
+      (returnValue, success) => {
+        const message = { __tcfapiReturn: { returnValue, success, callId: call.callId } };
+        (event.source as Window | null)?.postMessage(
+          isString ? JSON.stringify(message) : message,
+          '*',
+        );
+      },
+      call.parameter,
+    );
+  };
+
+  w.__tcfapi = api;
+  if (!hasStub) {
+    ensureLocatorFrame();
+    window.addEventListener('message', onMessage);
+  }
+  (queue as unknown[][] | undefined)?.forEach((args) =>
+    api(...(args as Parameters<TcfCommand>)),
+  );
+
+  return {
+    update(categories, eventStatus, language) {
+      const stored = storage.getItem(STORAGE_TC_STRING_KEY);
+      let model: TCModel | null = null;
+      let tcString = '';
+
+      // Keep the string the visitor agreed to while it matches this setup
+      if (categories && eventStatus === 'tcloaded' && stored) {
+        try {
+          const decoded = decodeTCString(stored);
+          if (
+            decoded.cmpId === options.cmpId &&
+            decoded.vendorListVersion === options.gvl.vendorListVersion
+          ) {
+            model = decoded;
+            tcString = stored;
+          }
+        } catch {
+          // Rebuild below
+        }
+      }
+
+      if (!model) {
+        const date = storage.getItem(STORAGE_DATE_KEY);
+        model = buildTCModel(categories, options, {
+          language,
+          created:
+            eventStatus === 'tcloaded' && date ? new Date(parseInt(date, 10)) : undefined,
+        });
+        tcString = encodeTCString(model);
+        if (categories && eventStatus !== 'cmpuishown') {
+          storage.setItem(STORAGE_TC_STRING_KEY, tcString);
+        }
+      }
+
+      current = { model, tcString, eventStatus };
+      waiting.splice(0).forEach(({ callback, vendorIds }) =>
+        callback(dataFor({ vendorIds }), true),
+      );
+      listeners.forEach((callback, listenerId) => callback(dataFor({ listenerId }), true));
+      return tcString;
+    },
+    destroy() {
+      listeners.clear();
+      window.removeEventListener('message', onMessage);
+      if (w.__tcfapi === api) delete w.__tcfapi;
+      document.querySelector('iframe[name="__tcfapiLocator"]')?.remove();
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import type { ConsentCategory, ConsentTeardown } from './types';
+
+// ─── Registry ───
+
+const registry = new Set<ConsentTeardown>();
+
+/**
+ * Adds teardowns for every banner on the page, e.g. from the module that
+ * loads a script. Returns a function that removes them.
+ *
+ * @example
+ * ```ts
+ * registerTeardown({
+ *   category: 'marketing',
+ *   run: () => window.fbq?.('consent', 'revoke'),
+ * });
+ * ```
+ */
+export function registerTeardown(...teardowns: ConsentTeardown[]): () => void {
+  teardowns.forEach((teardown) => registry.add(teardown));
+  return () => teardowns.forEach((teardown) => registry.delete(teardown));
+}
+
+/** `extra` followed by the registered teardowns. */
+export function getTeardowns(extra: ConsentTeardown[] = []): ConsentTeardown[] {
+  const teardowns = [...extra];
+  registry.forEach((teardown) => {
+    if (!teardowns.includes(teardown)) teardowns.push(teardown);
+  });
+  return teardowns;
+}
+
+// ─── Running ───
+
+// An unparsable URL is compared as written rather than throwing
+function resolveUrl(url: string): string {
+  try {
+    return new URL(url, document.baseURI).href;
+  } catch {
+    return url;
+  }
+}
+
+function matchesTag(el: Element, script: string): boolean {
+  if (el.id === script) return true;
+  const src = el.getAttribute('src');
+  return !!src && resolveUrl(src) === resolveUrl(script);
+}
+
+/** What a choice withdrew. */
+export interface Revocation {
+  categories: ConsentCategory[];
+  /** Ids of vendors that were allowed and no longer are. */
+  vendors: string[];
+  /** Script Vault tags removed from the page. */
+  tags: Element[];
+}
+
+/** Runs, once each, the teardowns for what `revoked` lists. */
+export function runTeardowns(teardowns: ConsentTeardown[], revoked: Revocation): void {
+  teardowns.forEach((teardown) => {
+    const byCategory =
+      !!teardown.category && revoked.categories.includes(teardown.category);
+    const byVendor = !!teardown.vendor && revoked.vendors.includes(teardown.vendor);
+    const byScript =
+      !!teardown.script &&
+      revoked.tags.some((el) => matchesTag(el, teardown.script as string));
+    if (!byCategory && !byVendor && !byScript) return;
+    try {
+      teardown.run();
+    } catch {
+      // A broken teardown must not keep the others from running
+    }
+  });
+}
@@ -0,0 +1,20 @@
+import type { BannerTheme } from './types';
+
+// ─── Theme colors (matches WordPress plugin exactly) ───
+
+export function getThemeColors(theme: BannerTheme, glassmorphism: boolean) {
+  const dk = theme === 'dark';
+  return {
+    bg: dk
+      ? `rgba(24,24,27,${glassmorphism ? '.75' : '1'})`
+      : `rgba(255,255,255,${glassmorphism ? '.8' : '1'})`,
+    text: dk ? '#e4e4e7' : '#1e293b',
+    muted: dk ? '#a1a1aa' : '#64748b',
+    border: dk ? '#3f3f46' : '#e2e8f0',
+    btnBg: dk ? '#27272a' : '#f1f5f9',
+    btnText: dk ? '#e4e4e7' : '#334155',
+  };
+}
+
+/** Resolved theme palette shared by the banner and declaration components. */
+export type ThemeColors = ReturnType<typeof getThemeColors>;
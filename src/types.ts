@@ -1,8 +1,70 @@
-/** The level of consent granted by the user. */
+import type { CSSProperties, ReactNode } from "react";
+
+/**
+ * Shorthand consent level. `'all'` grants every category, `'necessary'`
+ * grants only the strictly necessary one.
+ */
 export type ConsentLevel = "all" | "necessary";
 
-/** Banner language. `'auto'` detects from `navigator.language`. */
-export type Language = "fr" | "en" | "auto";
+/**
+ * Summary of a stored choice. `'custom'` means some, but not all, optional
+ * categories were granted.
+ */
+export type ConsentSummary = ConsentLevel | "custom";
+
+/**
+ * A consent category. The four built-in categories can be extended with
+ * custom ids declared through the `categories` prop.
+ */
+export type ConsentCategory =
+  | "necessary"
+  | "functional"
+  | "analytics"
+  | "marketing"
+  | (string & {});
+
+/** Granted (`true`) or denied (`false`) state for each category. */
+export type ConsentCategories = Record<string, boolean>;
+
+/** A custom consent category declared by the site. */
+export interface ConsentCategoryDefinition {
+  /** Unique category id, e.g. `'personalization'`. */
+  id: string;
+}
+
+/**
+ * A service inside a category that visitors can refuse on its own, e.g.
+ * Hotjar inside `analytics`.
+ */
+export interface ConsentVendor {
+  /**
+   * Unique vendor id, e.g. `'hotjar'`. Used by `isVendorAllowed()`,
+   * `data-consent-vendor`, `<ConsentGate vendor>` and adapters' `vendor`.
+   */
+  id: string;
+  /** Display name, e.g. `'Hotjar'`. */
+  name: string;
+  /** Company behind the service, when it differs from `name`. */
+  provider?: string;
+  /** Category the vendor belongs to. It is only allowed with it. */
+  category: ConsentCategory;
+  /** What the vendor is used for. */
+  purpose?: LocalizedText;
+  /** Link to the vendor's privacy policy. */
+  privacyUrl?: string;
+  /** Cookies the vendor sets, e.g. `getCatalogCookies('hotjar')`. */
+  cookies?: CookieDefinition[];
+}
+
+/** Per-vendor states, keyed by vendor id. */
+export type ConsentVendors = Record<string, boolean>;
+
+/**
+ * Banner language: a BCP 47 tag matched against the registered locales
+ * (e.g. `'fr-CA'` uses `fr`), or `'auto'` to detect it from `<html lang>`
+ * and `navigator.languages`.
+ */
+export type Language = "fr" | "en" | "auto" | (string & {});
 
 /** Banner display style. */
 export type BannerStyle = "bar" | "popup" | "corner";
@@ -16,6 +78,439 @@ export type BannerTheme = "light" | "dark";
 /** Animation type for the banner entrance/exit. */
 export type Animation = "slide" | "fade";
 
+/** How a consent decision was made. */
+export type ConsentMethod =
+  | "accept"
+  | "reject"
+  | "customize"
+  | "escape"
+  | "signal"
+  | "opt-out"
+  | "api";
+
+/** Browser privacy signal: Global Privacy Control or Do Not Track. */
+export type BrowserSignal = "gpc" | "dnt";
+
+/** Proof-of-consent record produced for every decision. */
+export interface ConsentRecord {
+  /** Random id identifying this decision. */
+  consentId: string;
+  /** ISO 8601 time of the decision. */
+  timestamp: string;
+  /** Ids of the granted categories. */
+  granted: ConsentCategory[];
+  /** Ids of the denied categories. */
+  denied: ConsentCategory[];
+  /** Locale the banner was shown in, e.g. `'fr'` or `'es'`. */
+  language: string;
+  /** Version of the banner text / privacy policy the visitor saw. */
+  policyVersion?: string;
+  /** How the choice was made. */
+  method: ConsentMethod;
+  /** Browser privacy signal present when the choice was made. */
+  browserSignal?: BrowserSignal;
+  /** IAB TCF v2.2 TC string for the choice, when `tcf` is enabled. */
+  tcString?: string;
+  /** IAB GPP string for the choice, when `gpp` is enabled. */
+  gppString?: string;
+  /** States of the registered vendors, when there are any. */
+  vendors?: ConsentVendors;
+  /** Page the decision was made on. */
+  url?: string;
+}
+
+/** Transport that stores consent records as proof of consent. */
+export interface ConsentLogger {
+  /** Sends or queues one record. */
+  log: (record: ConsentRecord) => void | Promise<void>;
+  /** Retries records queued by an earlier page load, if any. */
+  flush?: () => void | Promise<void>;
+}
+
+/** Google Consent Mode v2 consent types. */
+export type GoogleConsentType =
+  | "ad_storage"
+  | "ad_user_data"
+  | "ad_personalization"
+  | "analytics_storage"
+  | "functionality_storage"
+  | "personalization_storage"
+  | "security_storage";
+
+/**
+ * Category that grants each Google consent type. Types mapped to
+ * `necessary` are always granted.
+ */
+export type GoogleConsentMapping = Partial<Record<GoogleConsentType, ConsentCategory>>;
+
+/**
+ * Names of the events pushed to `dataLayer` for Google Tag Manager
+ * triggers. Set a name to `false` to skip that event.
+ */
+export interface DataLayerEventNames {
+  /** Pushed after every choice. @default 'loi25_consent_update' */
+  update?: string | false;
+  /** Pushed once on load with the stored choice, or `null`. @default 'loi25_consent_initial' */
+  initial?: string | false;
+  /** Pushed each time the banner opens. @default 'loi25_banner_shown' */
+  bannerShown?: string | false;
+  /**
+   * Pushed by `getConsentModeScript()` when a returning visitor has a
+   * stored choice. @default 'loi25_consent_returning'
+   */
+  returning?: string | false;
+}
+
+/**
+ * Pushes consent to a vendor's own tag (e.g. `fbq('consent', ...)`).
+ * Built-in adapters: `metaPixelAdapter()`, `microsoftUetAdapter()`,
+ * `clarityAdapter()`, `tiktokAdapter()`, `linkedInAdapter()` and
+ * `hotjarAdapter()`.
+ */
+export interface ConsentAdapter {
+  /** Identifies the vendor, e.g. `'meta-pixel'`. */
+  id: string;
+  /**
+   * Registered vendor the adapter belongs to. While the visitor refuses
+   * it, `update` receives every optional category denied.
+   */
+  vendor?: string;
+  /** Applies the consent state. Called on load and after every choice. */
+  update: (categories: ConsentCategories) => void;
+}
+
+/**
+ * Key/value store that persists consent. Built-in adapters:
+ * `createLocalStorage()`, `createSessionStorage()`, `createCookieStorage()`
+ * and `createMemoryStorage()`.
+ */
+export interface ConsentStorage {
+  /** Returns the stored value, or `null`. Must not throw. */
+  getItem: (key: string) => string | null;
+  /** Stores a value. Must not throw. */
+  setItem: (key: string, value: string) => void;
+  /** Removes a value. Must not throw. */
+  removeItem: (key: string) => void;
+  /**
+   * Source of an inline `function(key){...}` that reads a value, used by
+   * `getConsentModeScript()` before React loads. Omit if values can't be
+   * read synchronously from the page.
+   */
+  inlineGetter?: string;
+  /**
+   * Resolves once stored values can be read, for adapters that load them
+   * asynchronously (`createHubStorage()`). `<CookieConsent>` waits for it
+   * before showing the banner.
+   */
+  ready?: () => Promise<void>;
+}
+
+/** Vendor entry of an IAB TCF Global Vendor List. */
+export interface GvlVendor {
+  id: number;
+  name: string;
+  /** Purposes processed on the basis of consent. */
+  purposes: number[];
+  /** Purposes processed on the basis of legitimate interest. */
+  legIntPurposes: number[];
+  flexiblePurposes?: number[];
+  specialPurposes?: number[];
+  features?: number[];
+  /** Special features the vendor needs an opt-in for. */
+  specialFeatures: number[];
+  /** Set once the vendor has left the list. */
+  deletedDate?: string;
+}
+
+/**
+ * IAB TCF v2.2 Global Vendor List — the `vendor-list.json` you download
+ * and serve yourself. Only the fields used to build TC strings are typed.
+ */
+export interface GlobalVendorList {
+  vendorListVersion: number;
+  tcfPolicyVersion: number;
+  vendors: Record<string, GvlVendor>;
+  purposes?: Record<string, { id: number; name: string; description?: string }>;
+  specialFeatures?: Record<string, { id: number; name: string; description?: string }>;
+}
+
+/** IAB TCF v2.2 configuration for `<CookieConsent tcf>`. */
+export interface TcfOptions {
+  /** Your CMP id, registered with IAB Europe. */
+  cmpId: number;
+  /** Your CMP version. @default 1 */
+  cmpVersion?: number;
+  /** Global Vendor List JSON, supplied locally. */
+  gvl: GlobalVendorList;
+  /** Vendor ids to disclose and ask consent for. Defaults to every active vendor in `gvl`. */
+  vendors?: number[];
+  /**
+   * Purposes you use, mapped to the category that grants them. Purposes
+   * left out are never consented.
+   * @default TCF_PURPOSE_CATEGORIES
+   */
+  purposes?: Record<number, ConsentCategory>;
+  /**
+   * Special features you use, mapped to the category that opts in to them.
+   * @default TCF_SPECIAL_FEATURE_CATEGORIES
+   */
+  specialFeatures?: Record<number, ConsentCategory>;
+  /** Two-letter publisher country code. @default 'CA' */
+  publisherCountryCode?: string;
+  /** Whether GDPR applies to this visitor, reported as `gdprApplies`. @default true */
+  gdprApplies?: boolean;
+}
+
+/** A banner button a jurisdiction asks for. */
+export type JurisdictionButton = "accept" | "reject" | "customize" | "doNotSell";
+
+/**
+ * A privacy regime: what the banner does for visitors it covers. Presets:
+ * `JURISDICTIONS.law25`, `gdpr`, `pipeda` and `ccpa`.
+ */
+export interface Jurisdiction {
+  /** Unique id, e.g. `'gdpr'`. */
+  id: string;
+  /**
+   * ISO 3166-1 country or ISO 3166-2 subdivision codes the regime covers,
+   * e.g. `['CA-QC']` or `['US-CA']`. `'*'` matches every region.
+   */
+  regions: string[];
+  /**
+   * Categories granted before a choice is made (implied / opt-out
+   * consent). Unlisted categories are denied.
+   * @default 'necessary'
+   */
+  defaults?: ConsentLevel | Partial<ConsentCategories>;
+  /**
+   * Buttons the banner shows. `'doNotSell'` denies `optOutCategories`.
+   * @default ['accept', 'reject', 'customize']
+   */
+  buttons?: JurisdictionButton[];
+  /**
+   * Categories covered by the "Do Not Sell or Share" opt-out and by
+   * browser privacy signals.
+   * @default ['marketing']
+   */
+  optOutCategories?: ConsentCategory[];
+  /** Longest a choice is kept, in days. Caps `expiryDays`. */
+  maxExpiryDays?: number;
+  /**
+   * Browser privacy signal handling when `respectBrowserSignals` isn't
+   * set. In regimes with granted `defaults`, a signal denies
+   * `optOutCategories` only.
+   */
+  respectBrowserSignals?: boolean | "reject" | "preselect";
+  /** Banner wording per locale code, over the locale bundles. */
+  texts?: Record<string, ConsentTexts>;
+}
+
+/**
+ * Returns the visitor's region as an ISO 3166 code (`'CA-QC'`, `'FR'`), or
+ * `null` when unknown. Called once, after mount.
+ */
+export type RegionResolver = () =>
+  | string
+  | null
+  | undefined
+  | Promise<string | null | undefined>;
+
+/** IAB Global Privacy Platform configuration for `<CookieConsent gpp>`. */
+export interface GppOptions {
+  /** Your CMP id, registered with IAB Tech Lab. */
+  cmpId: number;
+  /** Your CMP version. @default 1 */
+  cmpVersion?: number;
+  /**
+   * Include the US National Privacy section (`usnat`). Sale, sharing and
+   * targeted advertising opt-outs follow the `marketing` category.
+   * @default true
+   */
+  usnat?: boolean | { mspaCoveredTransaction?: boolean };
+  /**
+   * Include the Canadian TCF section (`tcfcav1`) with this vendor config.
+   * Use the TCF Canada Global Vendor List. Consent is always express.
+   */
+  tcfca?: Pick<TcfOptions, "gvl" | "vendors" | "purposes" | "specialFeatures">;
+  /**
+   * Section ids that apply to the current visitor, reported as
+   * `applicableSections`. `[-1]` means none apply.
+   * @default every included section
+   */
+  applicableSections?: number[];
+}
+
+/** Cookie or storage key name: exact string, or a pattern to test. */
+export type CookiePattern = string | RegExp;
+
+/** Cookie and storage key patterns per category, used for cleanup. */
+export type CleanupPatterns = Record<string, CookiePattern[]>;
+
+/**
+ * Undoes what a script set up once consent for it is withdrawn, since
+ * removing a script doesn't stop code that already ran. Give a `category`,
+ * a `vendor`, a Script Vault `script` (its `src` or `id`), or several: it
+ * runs when any of them is revoked.
+ *
+ * @example
+ * { category: 'analytics', run: () => { window['ga-disable-G-XXXX'] = true; } }
+ */
+export interface ConsentTeardown {
+  /** Runs when this category goes from granted to denied. */
+  category?: ConsentCategory;
+  /** Runs when this vendor goes from allowed to refused. */
+  vendor?: string;
+  /** Runs when the Script Vault tag with this `src` or `id` is removed. */
+  script?: string;
+  run: () => void;
+}
+
+/** Text given once for all languages, or per locale code. */
+export type LocalizedText =
+  | string
+  | { fr?: string; en?: string; [locale: string]: string | undefined };
+
+/** One entry of the site's cookie inventory. */
+export interface CookieDefinition {
+  /** Cookie or storage key name, e.g. `'_ga'` or `'_ga_<container-id>'`. */
+  name: string;
+  /** Company that sets and reads it, e.g. `'Google'`. */
+  provider: string;
+  /** Consent category the cookie belongs to. */
+  category: ConsentCategory;
+  /** What the cookie is used for. */
+  purpose: LocalizedText;
+  /** How long it is kept, e.g. `{ fr: '2 ans', en: '2 years' }`. */
+  duration: LocalizedText;
+  /**
+   * Where it is stored.
+   * @default 'cookie'
+   */
+  type?: "cookie" | "localStorage" | "sessionStorage";
+}
+
+/** Custom text overrides for `<CookieDeclaration>` in one language. */
+export interface DeclarationTexts {
+  /** "Name" column header. */
+  name?: string;
+  /** "Provider" column header. */
+  provider?: string;
+  /** "Purpose" column header. */
+  purpose?: string;
+  /** "Duration" column header. */
+  duration?: string;
+  /** Shown under a category with no cookies. */
+  empty?: string;
+  /** Category labels and descriptions, keyed by category id. */
+  categories?: Record<string, ConsentCategoryTexts>;
+}
+
+/** Props for the `<CookieDeclaration>` component. */
+export interface CookieDeclarationProps {
+  /**
+   * The cookie inventory. Combine your own entries with
+   * `getCatalogCookies()` for common vendors.
+   */
+  cookies: CookieDefinition[];
+  /**
+   * Table language: a locale code, or `'auto'` to detect it from
+   * `<html lang>` and `navigator.languages`.
+   * @default 'fr'
+   */
+  lang?: Language;
+  /**
+   * Color theme.
+   * @default 'light'
+   */
+  theme?: BannerTheme;
+  /**
+   * Custom categories, in the same form as on `<CookieConsent>`. Their
+   * sections follow the built-in ones.
+   */
+  categories?: ConsentCategoryDefinition[];
+  /** Show categories that have no cookies. @default false */
+  showEmpty?: boolean;
+  /** French text overrides. */
+  textsFr?: DeclarationTexts;
+  /** English text overrides. */
+  textsEn?: DeclarationTexts;
+  /** Extra translation bundles, used before the registered ones. */
+  locales?: ConsentLocale[];
+}
+
+/** What a custom `<ConsentGate>` placeholder receives. */
+export interface ConsentGatePlaceholder {
+  /** Vendor display name, or `texts.gateThirdParty` without a vendor. */
+  vendor: string;
+  /** Category the content needs. */
+  category: ConsentCategory;
+  /** Category label in the current language. */
+  categoryLabel: string;
+  /** The placeholder message with `{vendor}` and `{category}` filled in. */
+  message: string;
+  /** Grants the category, which renders the content. */
+  load: () => void;
+}
+
+/**
+ * Props for the `<ConsentGate>` component. Outside a
+ * `<CookieConsentProvider>`, `expiryDays`, `policyVersion` and `storage`
+ * must match `<CookieConsent>`.
+ */
+export interface ConsentGateProps extends UseConsentOptions {
+  /**
+   * Category the content needs. Defaults to the vendor's category, else
+   * `'marketing'`.
+   */
+  category?: ConsentCategory;
+  /**
+   * Who serves the content: an id from `EMBED_VENDORS` (`'youtube'`,
+   * `'google-maps'`...) or any display name.
+   */
+  vendor?: string;
+  /** The embed, rendered only once its category is granted. */
+  children?: ReactNode;
+  /** Replaces the built-in placeholder. */
+  placeholder?: (gate: ConsentGatePlaceholder) => ReactNode;
+  /**
+   * Placeholder language: a locale code, or `'auto'`. Inside a
+   * `<CookieConsentProvider>`, the banner's language is used.
+   * @default 'fr'
+   */
+  lang?: Language;
+  /**
+   * Color theme of the placeholder.
+   * @default 'light'
+   */
+  theme?: BannerTheme;
+  /**
+   * Color of the load button.
+   * @default '#1d4ed8'
+   */
+  brandColor?: string;
+  /**
+   * French text overrides (`gateMessage`, `gateLoad`, `gateThirdParty`).
+   * Inside a `<CookieConsentProvider>`, category labels come from the banner.
+   */
+  textsFr?: ConsentTexts;
+  /** English text overrides. */
+  textsEn?: ConsentTexts;
+  /** Extra translation bundles, used before the registered ones. */
+  locales?: ConsentLocale[];
+  /** Class name of the placeholder. */
+  className?: string;
+  /** Style of the placeholder, e.g. the embed's size. */
+  style?: CSSProperties;
+}
+
+/** Label and description shown for a category in the preferences panel. */
+export interface ConsentCategoryTexts {
+  /** Category name. */
+  label?: string;
+  /** What the category is used for. */
+  description?: string;
+}
+
 /** Custom text overrides for one language. */
 export interface ConsentTexts {
   /** Banner title. */
@@ -26,112 +521,229 @@ export interface ConsentTexts {
   accept?: string;
   /** Reject button label. */
   reject?: string;
+  /** Button that opens the preferences panel. */
+  customize?: string;
+  /** Preferences panel title. */
+  preferencesTitle?: string;
+  /** Button that saves the choices made in the preferences panel. */
+  save?: string;
+  /** Badge shown next to the locked `necessary` category. */
+  alwaysActive?: string;
+  /** Notice shown when a GPC / DNT signal turned marketing off. */
+  browserSignal?: string;
+  /** Notice shown when the visitor consented to an older `policyVersion`. */
+  policyUpdated?: string;
+  /**
+   * What changed in the policy, shown under `policyUpdated`. Pass a map
+   * keyed by the previously accepted version to describe each upgrade path.
+   */
+  policyChanges?: string | Record<string, string>;
+  /** Category labels and descriptions, keyed by category id. */
+  categories?: Record<string, ConsentCategoryTexts>;
   /** Privacy policy link text. */
   privacy?: string;
   /** "Powered by" text (only shown when `poweredBy` is true). */
   powered?: string;
+  /** "Do Not Sell or Share" link, shown by jurisdictions that ask for it. */
+  doNotSell?: string;
+  /**
+   * `<ConsentGate>` placeholder message. `{vendor}` and `{category}` are
+   * replaced with the vendor name and category label.
+   */
+  gateMessage?: string;
+  /** `<ConsentGate>` button that loads the content. */
+  gateLoad?: string;
+  /** Used as `{vendor}` when a `<ConsentGate>` has no vendor. */
+  gateThirdParty?: string;
+  /** Heading of a category's vendor list in the preferences panel. */
+  vendors?: string;
+  /** Link to a vendor's privacy policy. */
+  vendorPrivacy?: string;
+  /** Announced to screen readers when the banner opens. */
+  bannerLabel?: string;
+  /** Announced to screen readers once a choice is saved. */
+  consentSaved?: string;
+  /** Accessible name of the floating reconsent button. */
+  reconsentLabel?: string;
 }
 
-/** Props for the `<CookieConsent>` component. */
-export interface CookieConsentProps {
+/**
+ * A full translation bundle. Register it with `registerLocale()` or pass
+ * it through the `locales` prop.
+ */
+export interface ConsentLocale {
+  /** BCP 47 tag, e.g. `'es'`, `'zh-Hans'` or `'ar'`. */
+  code: string;
+  /** Text direction. Detected from the language when omitted (`ar`, `he`, `fa`, `ur`, ...). */
+  dir?: "ltr" | "rtl";
   /**
-   * Banner language. `'auto'` detects from `navigator.language`.
+   * Locale used for strings this one leaves out, after its parent tags
+   * (`zh-Hant-TW` → `zh-Hant` → `zh`). French is always last.
+   */
+  fallback?: string;
+  /** Banner strings, aria-labels and category texts. */
+  texts: ConsentTexts;
+  /** `<CookieDeclaration>` strings. */
+  declaration?: DeclarationTexts;
+}
+
+/**
+ * Props for `<CookieConsentProvider>`: consent behavior without any
+ * markup. `<CookieConsent>` accepts them too.
+ */
+export interface CookieConsentProviderProps {
+  /**
+   * Banner language: a locale code, or `'auto'` to detect it from
+   * `<html lang>` and `navigator.languages`. Tags are matched with BCP 47
+   * lookup (`'fr-CA'` uses `fr`); unknown languages fall back to French.
    * @default 'fr'
    */
   lang?: Language;
 
   /**
-   * Banner position — applies to `bar` and `corner` styles.
-   * @default 'bottom'
+   * Extra translation bundles, used before the ones registered with
+   * `registerLocale()`. French and English are built in.
+   * @example [{ code: 'es', fallback: 'en', texts: { title: 'Su privacidad', ... } }]
    */
-  position?: BannerPosition;
+  locales?: ConsentLocale[];
 
   /**
-   * Color theme.
-   * @default 'light'
+   * Number of days before consent expires and the banner reappears.
+   * @default 365
    */
-  theme?: BannerTheme;
+  expiryDays?: number;
 
   /**
-   * Banner display style.
-   * - `'bar'` — full-width bar fixed to top or bottom.
-   * - `'popup'` — centered modal with overlay.
-   * - `'corner'` — small widget in the corner.
-   * @default 'bar'
+   * Custom texts for the French banner. Unset fields use built-in defaults.
    */
-  style?: BannerStyle;
+  textsFr?: ConsentTexts;
 
   /**
-   * Enable glassmorphism (frosted glass) effect.
-   * @default false
+   * Custom texts for the English banner. Unset fields use built-in defaults.
    */
-  glassmorphism?: boolean;
+  textsEn?: ConsentTexts;
 
   /**
-   * URL to your privacy policy page.
-   * @default '/politique-de-confidentialite'
+   * Custom consent categories, added after the built-in `necessary`,
+   * `functional`, `analytics` and `marketing` categories. Give them a label
+   * and description through `textsFr.categories` / `textsEn.categories`.
    */
-  privacyUrl?: string;
+  categories?: ConsentCategoryDefinition[];
 
   /**
-   * Show a "Powered by Pomme&Olive" attribution link.
-   * @default false
+   * Vendors listed under their category in the preferences panel, each
+   * with its own toggle. They are used before the ones added with
+   * `registerVendor()`.
+   * @example getCatalogVendors('ga4', 'hotjar', 'meta-pixel')
    */
-  poweredBy?: boolean;
+  vendors?: ConsentVendor[];
 
   /**
-   * Brand color for the Accept button and reconsent button.
-   * Any valid CSS color string.
-   * @default '#1d4ed8'
+   * Callback fired when the user makes a consent choice.
+   * Use this to log consent to your backend, analytics, etc.
    */
-  brandColor?: string;
+  onConsent?: (
+    level: ConsentSummary,
+    categories: ConsentCategories,
+    record: ConsentRecord,
+  ) => void;
 
   /**
-   * Number of days before consent expires and the banner reappears.
-   * @default 365
+   * Version of your banner text or privacy policy, stored with the consent
+   * and in every consent record. When it changes, stored consent for an
+   * older version no longer counts and the banner reappears.
    */
-  expiryDays?: number;
+  policyVersion?: string;
 
   /**
-   * Show a floating reconsent button after the user makes a choice.
-   * @default true
+   * Honor Global Privacy Control (`navigator.globalPrivacyControl`) and
+   * Do Not Track when no consent is stored yet.
+   * - `true` / `'reject'` — record necessary-only consent without showing
+   *   the banner.
+   * - `'preselect'` — open the preferences panel with marketing off.
+   * @default the jurisdiction's setting, otherwise false
    */
-  showReconsent?: boolean;
+  respectBrowserSignals?: boolean | "reject" | "preselect";
 
   /**
-   * Animation type for banner entrance and exit.
-   * @default 'slide'
+   * Privacy regime to apply, by id or as an object. Overrides the one
+   * matched from `region`.
+   * @default the jurisdiction matching `region`, otherwise `'law25'`
    */
-  animation?: Animation;
+  jurisdiction?: string | Jurisdiction;
 
   /**
-   * Show cookie emoji icon in the banner title and reconsent button.
+   * Regimes `region` is matched against, most specific region first. With
+   * `consentMode`, each also gets region-scoped Consent Mode defaults.
+   * @example [JURISDICTIONS.law25, JURISDICTIONS.pipeda, JURISDICTIONS.ccpa]
+   */
+  jurisdictions?: Jurisdiction[];
+
+  /**
+   * The visitor's region (`'CA-QC'`, `'US-CA'`, `'FR'`), or a resolver
+   * returning it: `regionFromTimezone`, or your own that reads a
+   * server-provided value. The banner waits for an async resolver.
+   * @example region={getRegionFromHeaders(await headers())}
+   */
+  region?: string | RegionResolver;
+
+  /**
+   * Delete tracker cookies and localStorage / sessionStorage entries when a
+   * category goes from granted to denied (e.g. through the reconsent
+   * button). Uses a built-in registry of known trackers plus
+   * `cleanupPatterns`.
    * @default true
    */
-  showIcon?: boolean;
+  purgeOnRevoke?: boolean;
 
   /**
-   * Custom CSS injected as a `<style>` tag. Target `#loi25-banner`
-   * and `#loi25-reconsent`.
-   * @default ''
+   * Extra cookie / storage key patterns to delete per category, added to
+   * the built-in registry.
+   * @example { analytics: ['my_visitor_id', /^_myab_/] }
    */
-  customCss?: string;
+  cleanupPatterns?: CleanupPatterns;
 
   /**
-   * Custom texts for the French banner. Unset fields use built-in defaults.
+   * Callbacks run when consent is withdrawn, in addition to the ones added
+   * with `registerTeardown()`. Script Vault tags are removed from the page
+   * as soon as a category is withdrawn.
    */
-  textsFr?: ConsentTexts;
+  teardowns?: ConsentTeardown[];
 
   /**
-   * Custom texts for the English banner. Unset fields use built-in defaults.
+   * Where consent is persisted. Pass the same adapter to `useConsent()` and
+   * `getConsentModeScript()`.
+   * @default createLocalStorage()
    */
-  textsEn?: ConsentTexts;
+  storage?: ConsentStorage;
 
   /**
-   * Callback fired when the user makes a consent choice.
-   * Use this to log consent to your backend, analytics, etc.
+   * Transport for proof-of-consent records. Use `createBeaconLogger()` to
+   * post them to your backend.
+   */
+  consentLogger?: ConsentLogger;
+
+  /**
+   * Vendor adapters that receive every consent change, in addition to
+   * Google Consent Mode. Before a choice they get the necessary-only state.
+   * @example [metaPixelAdapter(), clarityAdapter(), tiktokAdapter()]
+   */
+  adapters?: ConsentAdapter[];
+
+  /**
+   * Enable the IAB TCF v2.2 CMP API (`window.__tcfapi`) for programmatic ad
+   * stacks. TC strings are built from the visitor's category choices. Add
+   * `getConsentModeScript({ tcf: true })` to `<head>` so the API stub
+   * exists before ad tags load.
    */
-  onConsent?: (level: ConsentLevel) => void;
+  tcf?: TcfOptions;
+
+  /**
+   * Enable the IAB Global Privacy Platform CMP API (`window.__gpp`) with
+   * the `usnat` and, optionally, `tcfcav1` sections. Add
+   * `getConsentModeScript({ gpp: true })` to `<head>` for the API stub.
+   */
+  gpp?: GppOptions;
 
   /**
    * Enable Google Consent Mode v2. Automatically manages `ad_storage`,
@@ -143,6 +755,23 @@ export interface CookieConsentProps {
    */
   consentMode?: boolean;
 
+  /**
+   * Category that grants each Google consent type, merged over
+   * `DEFAULT_GOOGLE_CONSENT_MAPPING`. Pass the same mapping to
+   * `getConsentModeScript({ consent_mapping })`.
+   * @example { functionality_storage: 'functional', personalization_storage: 'functional' }
+   */
+  googleConsentMapping?: GoogleConsentMapping;
+
+  /**
+   * Push structured events to `dataLayer` for Google Tag Manager triggers:
+   * `{ event, consent, level, method, policyVersion }` after every choice,
+   * plus initial-state and banner-shown events. Works without
+   * `consentMode`. Pass an object to rename or skip events.
+   * @default false
+   */
+  dataLayerEvents?: boolean | DataLayerEventNames;
+
   /**
    * When `true` and `ad_storage` is denied, ad click identifiers in pings
    * are redacted and requests go through a cookieless domain.
@@ -176,32 +805,334 @@ export interface CookieConsentProps {
 
   /**
    * Raw HTML string of analytics/tracking scripts to block until consent.
-   * Scripts are only injected into `<head>` after the user clicks "Accept All".
+   * Its tags are only injected after the user clicks "Accept All", in
+   * document order: each external script loads before the next tag runs.
+   * Tracking pixels (`<img>`), iframes and `<noscript>` blocks are kept.
    *
    * Supports Google Analytics, Google Tag Manager, Meta Pixel, Hotjar, etc.
    * @default ''
    */
   scripts?: string;
 
+  /** Called when a tag from `scripts` has loaded, or is in the page for inline tags. */
+  onScriptLoad?: (element: Element) => void;
+
+  /**
+   * Called when a tag from `scripts` fails to load (network error, ad
+   * blocker). The tags after it are still injected.
+   */
+  onScriptError?: (element: Element) => void;
+
   /**
    * Force a page reload after "Accept All" when `scripts` are provided.
    * Useful for scripts that must run at page load time (e.g., GTM).
    * @default false
    */
   reloadOnConsent?: boolean;
+
+  /**
+   * Force a page reload after a choice withdraws a category that was
+   * granted, or refuses a vendor that was allowed, so no script keeps
+   * running without consent. Teardowns run first.
+   * @default false
+   */
+  reloadOnRevoke?: boolean;
+
+  /**
+   * Expose the consent manager as `window.Loi25` (or the given name) for
+   * non-React scripts. Commands queued with `Loi25.push()` before it loads
+   * are run once it does.
+   * @default false
+   */
+  globalApi?: boolean | string;
+
+  /**
+   * Your own banner, built with `useConsentController()`, plus any other
+   * content that should share the provider.
+   */
+  children?: ReactNode;
+}
+
+/** Props for the `<CookieConsent>` component. */
+export interface CookieConsentProps
+  extends Omit<CookieConsentProviderProps, "children"> {
+  /**
+   * Banner position — applies to `bar` and `corner` styles.
+   * @default 'bottom'
+   */
+  position?: BannerPosition;
+
+  /**
+   * Color theme.
+   * @default 'light'
+   */
+  theme?: BannerTheme;
+
+  /**
+   * Banner display style.
+   * - `'bar'` — full-width bar fixed to top or bottom.
+   * - `'popup'` — centered modal with overlay.
+   * - `'corner'` — small widget in the corner.
+   * @default 'bar'
+   */
+  style?: BannerStyle;
+
+  /**
+   * Enable glassmorphism (frosted glass) effect.
+   * @default false
+   */
+  glassmorphism?: boolean;
+
+  /**
+   * URL to your privacy policy page.
+   * @default '/politique-de-confidentialite'
+   */
+  privacyUrl?: string;
+
+  /**
+   * Show a "Powered by Pomme&Olive" attribution link.
+   * @default false
+   */
+  poweredBy?: boolean;
+
+  /**
+   * Brand color for the Accept button and reconsent button.
+   * Any valid CSS color string.
+   * @default '#1d4ed8'
+   */
+  brandColor?: string;
+
+  /**
+   * Show a floating reconsent button after the user makes a choice.
+   * @default true
+   */
+  showReconsent?: boolean;
+
+  /**
+   * Animation type for banner entrance and exit.
+   * @default 'slide'
+   */
+  animation?: Animation;
+
+  /**
+   * Show cookie emoji icon in the banner title and reconsent button.
+   * @default true
+   */
+  showIcon?: boolean;
+
+  /**
+   * Custom CSS injected as a `<style>` tag. Target `#loi25-banner`
+   * and `#loi25-reconsent`.
+   * @default ''
+   */
+  customCss?: string;
+}
+
+/** Options for the `useConsent` hook. */
+export interface UseConsentOptions {
+  /**
+   * Number of days before consent expires.
+   * Must match the `expiryDays` prop on `<CookieConsent>`.
+   * @default 365
+   */
+  expiryDays?: number;
+  /**
+   * Current policy version. Must match the `policyVersion` prop on
+   * `<CookieConsent>`.
+   */
+  policyVersion?: string;
+  /**
+   * Where consent is persisted. Must be the adapter passed to
+   * `<CookieConsent>`.
+   * @default createLocalStorage()
+   */
+  storage?: ConsentStorage;
+  /**
+   * Vendors, matching the `vendors` prop on `<CookieConsent>`. Vendors
+   * added with `registerVendor()` are always known.
+   */
+  vendors?: ConsentVendor[];
 }
 
 /** Return type for the `useConsent` hook. */
 export interface ConsentState {
-  /** Current consent level, or `null` if no valid consent exists. */
-  consent: ConsentLevel | null;
+  /** Current consent summary, or `null` if no valid consent exists. */
+  consent: ConsentSummary | null;
+
+  /** Per-category consent states, or `null` if no valid consent exists. */
+  categories: ConsentCategories | null;
 
   /** Whether the user has given any consent that hasn't expired. */
   hasConsent: boolean;
 
+  /** Whether a category is currently granted. `necessary` is always granted. */
+  isGranted: (category: ConsentCategory) => boolean;
+
+  /** Per-vendor states stored with the choice, or `null`. */
+  vendors: ConsentVendors | null;
+
+  /**
+   * Whether a vendor is allowed: its category is granted and the visitor
+   * didn't refuse it in the preferences panel.
+   */
+  isVendorAllowed: (id: string) => boolean;
+
+  /** Browser privacy signal the visitor sends, or `null`. */
+  browserSignal: BrowserSignal | null;
+
+  /** IAB GPP string stored with the consent, or `null`. */
+  gppString: string | null;
+
   /** Reset consent — clears stored consent and triggers the banner to reappear. */
   resetConsent: () => void;
 
-  /** Programmatically set the consent level. */
-  setConsent: (level: ConsentLevel) => void;
+  /**
+   * Programmatically set consent, either with a shorthand level or a
+   * per-category map. Unlisted categories are denied. `vendors` sets
+   * vendor states; a category granted anew then allows only the vendors
+   * named in it. With a banner mounted, the choice is recorded like a
+   * click, with the `api` method.
+   */
+  setConsent: (
+    choice: ConsentLevel | Partial<ConsentCategories>,
+    vendors?: Partial<ConsentVendors>,
+  ) => void;
+}
+
+/** Banner strings for the active language, with defaults filled in. */
+export type ResolvedConsentTexts = Required<
+  Omit<ConsentTexts, "categories" | "policyChanges">
+>;
+
+/**
+ * Banner state and actions returned by `useConsentController()`, for
+ * building your own banner on top of `<CookieConsentProvider>`.
+ */
+export interface ConsentController {
+  /** `false` during SSR and the first render. Render nothing until then. */
+  mounted: boolean;
+
+  /** Resolved locale code, e.g. `'fr'` or `'es'`. */
+  language: string;
+
+  /** Text direction of `language`. */
+  dir: "ltr" | "rtl";
+
+  /** Region the jurisdiction was matched from, or `null`. */
+  region: string | null;
+
+  /** Privacy regime in effect. */
+  jurisdiction: Jurisdiction;
+
+  /** Buttons the jurisdiction asks for, in display order. */
+  buttons: JurisdictionButton[];
+
+  /** Banner strings for `language`. */
+  texts: ResolvedConsentTexts;
+
+  /** Label and description of a category, for the preferences panel. */
+  getCategoryTexts: (id: string) => Required<ConsentCategoryTexts>;
+
+  /** Category ids, built-in first, in display order. */
+  categoryIds: string[];
+
+  /** Current choice, or `null` while none is stored. */
+  consent: ConsentCategories | null;
+
+  /** Summary of `consent`, or `null`. */
+  level: ConsentSummary | null;
+
+  /**
+   * Whether a category is in effect: granted by the stored choice or, before
+   * one, by the jurisdiction's defaults. `false` until mounted.
+   */
+  isGranted: (category: ConsentCategory) => boolean;
+
+  /** Known vendors: the `vendors` prop, then the registered ones. */
+  vendors: ConsentVendor[];
+
+  /** Vendor states stored with the current choice, or `null`. */
+  vendorStates: ConsentVendors | null;
+
+  /** Whether a vendor is in effect: its category is and it wasn't refused. */
+  isVendorAllowed: (id: string) => boolean;
+
+  /** Picks the translation of a text for `language`, e.g. a vendor's purpose. */
+  localize: (text: LocalizedText) => string;
+
+  /** Whether the banner should be in the DOM. */
+  showBanner: boolean;
+
+  /**
+   * Whether the banner should be in its shown state. Turns `true` two
+   * frames after `showBanner` and `false` 400 ms before it, for CSS
+   * transitions.
+   */
+  isVisible: boolean;
+
+  /** Whether the preferences panel is open. */
+  showPreferences: boolean;
+
+  /** Category states being edited in the preferences panel. */
+  draft: ConsentCategories | null;
+
+  /** Vendor states being edited in the preferences panel. */
+  draftVendors: ConsentVendors | null;
+
+  /** Whether the stored choice was for an older `policyVersion`. */
+  policyUpdated: boolean;
+
+  /** What changed in the policy (`texts.policyChanges`), if provided. */
+  policyChangeDetails: string | undefined;
+
+  /** Browser privacy signal detected with `respectBrowserSignals`, or `null`. */
+  browserSignal: BrowserSignal | null;
+
+  /**
+   * Whether to show `texts.browserSignal`: the preferences panel was
+   * preselected because of a browser privacy signal.
+   */
+  showSignalNotice: boolean;
+
+  /** Grants every category. */
+  acceptAll: () => void;
+
+  /** Grants only `necessary`. */
+  rejectAll: () => void;
+
+  /**
+   * The jurisdiction's `defaults` (necessary only unless it grants some),
+   * recorded with the `escape` method (Escape key, close button).
+   */
+  dismiss: () => void;
+
+  /** Denies the jurisdiction's `optOutCategories`, recorded as `opt-out`. */
+  doNotSell: () => void;
+
+  /** Stores the `draft` from the preferences panel. */
+  savePreferences: () => void;
+
+  /** Opens the preferences panel, starting from necessary only. */
+  openPreferences: () => void;
+
+  /** Returns from the preferences panel to the banner. */
+  closePreferences: () => void;
+
+  /**
+   * Flips a category in the `draft`, with all of its vendors. `necessary`
+   * can't be turned off.
+   */
+  toggleCategory: (id: string) => void;
+
+  /**
+   * Flips a vendor in `draftVendors`. Its category follows: on while any
+   * of its vendors is.
+   */
+  toggleVendor: (id: string) => void;
+
+  /**
+   * Clears the stored choice and shows the banner again, with the previous
+   * choice pre-filled in the preferences panel (the reconsent button).
+   */
+  reopen: () => void;
 }
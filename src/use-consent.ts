@@ -1,48 +1,53 @@
 'use client';
 
-import { useSyncExternalStore, useCallback } from 'react';
-import type { ConsentLevel, ConsentState } from './types';
+import { useSyncExternalStore, useCallback, useMemo, useRef } from 'react';
+import type {
+  BrowserSignal,
+  ConsentCategory,
+  ConsentState,
+  ConsentStorage,
+  UseConsentOptions,
+} from './types';
 import {
   STORAGE_KEY,
-  STORAGE_DATE_KEY,
-  CONSENT_CHANGE_EVENT,
+  STORAGE_CATEGORIES_KEY,
+  STORAGE_GPP_STRING_KEY,
+  STORAGE_VENDORS_KEY,
   DEFAULT_EXPIRY_DAYS,
 } from './defaults';
+import { parseStoredCategories, summarizeCategories } from './categories';
+import { getVendors, isVendorAllowed as checkVendor, parseStoredVendors } from './vendors';
+import { detectBrowserSignal } from './browser-signals';
+import { defaultStorage, isExpired, isCurrentVersion } from './storage';
+import { createConsentManager } from './consent-manager';
 
 // ─── External store helpers ───
 
-function subscribe(callback: () => void): () => void {
-  window.addEventListener('storage', callback);
-  window.addEventListener(CONSENT_CHANGE_EVENT, callback);
-  return () => {
-    window.removeEventListener('storage', callback);
-    window.removeEventListener(CONSENT_CHANGE_EVENT, callback);
-  };
-}
-
-function getSnapshot(): string | null {
-  try {
-    return localStorage.getItem(STORAGE_KEY);
-  } catch {
-    return null;
-  }
+// The snapshot must be a primitive so React can compare it between renders,
+// so the level, the category JSON, the GPP string and the vendor JSON are
+// serialized together.
+function readSnapshot(storage: ConsentStorage): string | null {
+  const level = storage.getItem(STORAGE_KEY);
+  if (!level) return null;
+  return JSON.stringify([
+    level,
+    storage.getItem(STORAGE_CATEGORIES_KEY),
+    storage.getItem(STORAGE_GPP_STRING_KEY),
+    storage.getItem(STORAGE_VENDORS_KEY),
+  ]);
 }
 
 function getServerSnapshot(): string | null {
   return null;
 }
 
-// ─── Helpers ───
+// Browser signals don't change during a page's lifetime
+function subscribeNoop(): () => void {
+  return () => {};
+}
 
-function isExpired(expiryDays: number): boolean {
-  try {
-    const d = localStorage.getItem(STORAGE_DATE_KEY);
-    if (!d) return true;
-    const age = (Date.now() - parseInt(d, 10)) / (1000 * 60 * 60 * 24);
-    return age > expiryDays;
-  } catch {
-    return true;
-  }
+function getServerSignal(): BrowserSignal | null {
+  return null;
 }
 
 // ─── Hook ───
@@ -53,53 +58,105 @@ function isExpired(expiryDays: number): boolean {
  * SSR-safe — returns `null` consent on the server.
  * Automatically syncs across tabs and with the `<CookieConsent>` component.
  *
- * @param expiryDays - Number of days before consent expires. Default: 365.
+ * @param options - Expiry, policy version, storage and vendors, matching `<CookieConsent>`.
+ *   A number is accepted as `expiryDays` for backward compatibility.
  *
  * @example
  * ```tsx
- * const { consent, hasConsent, resetConsent } = useConsent();
+ * const { consent, hasConsent, isGranted, isVendorAllowed, resetConsent } = useConsent();
  *
  * if (hasConsent && consent === 'all') {
  *   // User accepted all cookies
  * }
+ *
+ * if (isGranted('analytics')) {
+ *   // User accepted analytics, whatever they chose for marketing
+ * }
+ *
+ * if (isVendorAllowed('hotjar')) {
+ *   // Analytics is granted and Hotjar wasn't refused
+ * }
  * ```
  */
-export function useConsent(expiryDays: number = DEFAULT_EXPIRY_DAYS): ConsentState {
-  const raw = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+export function useConsent(options?: number | UseConsentOptions): ConsentState {
+  const opts = typeof options === 'number' ? { expiryDays: options } : options ?? {};
+  const expiryDays = opts.expiryDays ?? DEFAULT_EXPIRY_DAYS;
+  const policyVersion = opts.policyVersion;
+  const storage = opts.storage ?? defaultStorage;
+  const vendorList = opts.vendors;
+  // An inline vendors array is new on every render, so the manager reads the
+  // latest one when called instead of being recreated (and resubscribed).
+  const vendorListRef = useRef(vendorList);
+  vendorListRef.current = vendorList;
+  const manager = useMemo(
+    () =>
+      createConsentManager({
+        expiryDays,
+        policyVersion,
+        storage,
+        get vendors() {
+          return vendorListRef.current;
+        },
+      }),
+    [expiryDays, policyVersion, storage],
+  );
+  const getSnapshot = useCallback(() => readSnapshot(storage), [storage]);
+  const raw = useSyncExternalStore(manager.subscribe, getSnapshot, getServerSnapshot);
+  const browserSignal = useSyncExternalStore(
+    subscribeNoop,
+    detectBrowserSignal,
+    getServerSignal,
+  );
 
-  // Validate that consent hasn't expired
+  // Validate that consent hasn't expired and matches the current policy
   const isValid = (() => {
     if (!raw) return false;
     if (typeof window === 'undefined') return false;
-    return !isExpired(expiryDays);
+    return (
+      !isExpired(storage, expiryDays) && isCurrentVersion(storage, policyVersion)
+    );
   })();
 
-  const consent: ConsentLevel | null = isValid ? (raw as ConsentLevel) : null;
+  const parsed = useMemo(() => {
+    if (!isValid || !raw) return null;
+    const [level, json, gppString, vendorJson] = JSON.parse(raw) as [
+      string,
+      string | null,
+      string | null,
+      string | null,
+    ];
+    return {
+      categories: parseStoredCategories(level, json),
+      gppString,
+      vendors: parseStoredVendors(vendorJson),
+    };
+  }, [isValid, raw]);
+  const categories = parsed?.categories ?? null;
+  const vendors = parsed?.vendors ?? null;
+
+  const consent = categories ? summarizeCategories(categories) : null;
 
-  const resetConsent = useCallback(() => {
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-      localStorage.removeItem(STORAGE_DATE_KEY);
-    } catch {
-      // Silently fail if localStorage is unavailable
-    }
-    window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
-  }, []);
+  const isGranted = useCallback(
+    (category: ConsentCategory) =>
+      category === 'necessary' || categories?.[category] === true,
+    [categories],
+  );
 
-  const setConsent = useCallback((level: ConsentLevel) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, level);
-      localStorage.setItem(STORAGE_DATE_KEY, Date.now().toString());
-    } catch {
-      // Silently fail if localStorage is unavailable
-    }
-    window.dispatchEvent(new Event(CONSENT_CHANGE_EVENT));
-  }, []);
+  const isVendorAllowed = useCallback(
+    (id: string) => checkVendor(id, categories, vendors, getVendors(vendorList)),
+    [categories, vendors, vendorList],
+  );
 
   return {
     consent,
+    categories,
     hasConsent: consent !== null,
-    resetConsent,
-    setConsent,
+    isGranted,
+    vendors,
+    isVendorAllowed,
+    browserSignal,
+    gppString: parsed?.gppString ?? null,
+    resetConsent: manager.reset,
+    setConsent: manager.set,
   };
 }
@@ -0,0 +1,191 @@
+import type { ConsentAdapter, ConsentCategories, ConsentCategory } from './types';
+import { resolveCategories } from './categories';
+
+// ─── Types ───
+
+/** Options shared by the single-category adapters. */
+export interface VendorAdapterOptions {
+  /** Category that grants the vendor. */
+  category?: ConsentCategory;
+  /** Registered vendor id, so refusing the vendor alone revokes it. */
+  vendor?: string;
+}
+
+/** Options for `clarityAdapter()`. */
+export interface ClarityAdapterOptions {
+  /** Registered vendor id, so refusing the vendor alone revokes it. */
+  vendor?: string;
+  /** Category that grants `analytics_Storage`. @default 'analytics' */
+  analyticsCategory?: ConsentCategory;
+  /** Category that grants `ad_Storage`. @default 'marketing' */
+  adsCategory?: ConsentCategory;
+}
+
+/** Options for `linkedInAdapter()`. */
+export interface LinkedInAdapterOptions extends VendorAdapterOptions {
+  /** Insight Tag partner id. */
+  partnerId: string;
+}
+
+type VendorWindow = Window & {
+  fbq?: (...args: unknown[]) => void;
+  uetq?: unknown[];
+  clarity?: ((...args: unknown[]) => void) & { q?: unknown[] };
+  ttq?: { grantConsent?: () => void; revokeConsent?: () => void };
+  _linkedin_data_partner_ids?: string[];
+};
+
+// ─── Helpers ───
+
+const isGranted = (categories: ConsentCategories, category: ConsentCategory) =>
+  category === 'necessary' || categories[category] === true;
+
+const win = () => window as VendorWindow;
+
+// ─── Built-in adapters ───
+
+/**
+ * Meta Pixel: `fbq('consent', 'grant' | 'revoke')`. Load the pixel base
+ * code first; the call is skipped while `fbq` is undefined.
+ */
+export function metaPixelAdapter(options: VendorAdapterOptions = {}): ConsentAdapter {
+  const category = options.category ?? 'marketing';
+  return {
+    id: 'meta-pixel',
+    vendor: options.vendor,
+    update(categories) {
+      win().fbq?.('consent', isGranted(categories, category) ? 'grant' : 'revoke');
+    },
+  };
+}
+
+/**
+ * Microsoft Advertising UET: `uetq.push('consent', 'update', { ad_storage })`.
+ * The `uetq` queue is created if the tag hasn't loaded yet.
+ */
+export function microsoftUetAdapter(options: VendorAdapterOptions = {}): ConsentAdapter {
+  const category = options.category ?? 'marketing';
+  return {
+    id: 'microsoft-uet',
+    vendor: options.vendor,
+    update(categories) {
+      const w = win();
+      w.uetq = w.uetq || [];
+      w.uetq.push('consent', 'update', {
+        ad_storage: isGranted(categories, category) ? 'granted' : 'denied',
+      });
+    },
+  };
+}
+
+/**
+ * Microsoft Clarity consent API v2:
+ * `clarity('consentv2', { analytics_Storage, ad_Storage })`. Calls are
+ * queued with Clarity's own stub until the tag loads.
+ */
+export function clarityAdapter(options: ClarityAdapterOptions = {}): ConsentAdapter {
+  const analyticsCategory = options.analyticsCategory ?? 'analytics';
+  const adsCategory = options.adsCategory ?? 'marketing';
+  return {
+    id: 'clarity',
+    vendor: options.vendor,
+    update(categories) {
+      const w = win();
+      if (!w.clarity) {
+        const stub = function clarity() {
+          // eslint-disable-next-line prefer-rest-params
+          (stub.q = stub.q || []).push(arguments);
+        } as NonNullable<VendorWindow['clarity']>;
+        w.clarity = stub;
+      }
+      w.clarity('consentv2', {
+        analytics_Storage: isGranted(categories, analyticsCategory) ? 'granted' : 'denied',
+        ad_Storage: isGranted(categories, adsCategory) ? 'granted' : 'denied',
+      });
+    },
+  };
+}
+
+/**
+ * TikTok Pixel: `ttq.grantConsent()` / `ttq.revokeConsent()`. Load the pixel
+ * base code first (call `ttq.holdConsent()` there to wait for the banner).
+ */
+export function tiktokAdapter(options: VendorAdapterOptions = {}): ConsentAdapter {
+  const category = options.category ?? 'marketing';
+  return {
+    id: 'tiktok',
+    vendor: options.vendor,
+    update(categories) {
+      const ttq = win().ttq;
+      if (isGranted(categories, category)) ttq?.grantConsent?.();
+      else ttq?.revokeConsent?.();
+    },
+  };
+}
+
+/**
+ * LinkedIn Insight Tag. The tag has no consent API, so the adapter loads it
+ * once the category is granted instead of you adding it to the page.
+ * Withdrawn consent takes effect on the next page load.
+ */
+export function linkedInAdapter(options: LinkedInAdapterOptions): ConsentAdapter {
+  const category = options.category ?? 'marketing';
+  let loaded = false;
+  return {
+    id: 'linkedin',
+    vendor: options.vendor,
+    update(categories) {
+      if (loaded || !isGranted(categories, category)) return;
+      loaded = true;
+      const w = win();
+      w._linkedin_data_partner_ids = w._linkedin_data_partner_ids || [];
+      w._linkedin_data_partner_ids.push(options.partnerId);
+      const script = document.createElement('script');
+      script.async = true;
+      script.src = 'https://snap.licdn.com/li.lms-analytics/insight.min.js';
+      document.head.appendChild(script);
+    },
+  };
+}
+
+/**
+ * Hotjar: sets the `_hjOptOut` cookie while the category is denied, which
+ * stops Hotjar from collecting data, and removes it once granted.
+ */
+export function hotjarAdapter(options: VendorAdapterOptions = {}): ConsentAdapter {
+  const category = options.category ?? 'analytics';
+  return {
+    id: 'hotjar',
+    vendor: options.vendor,
+    update(categories) {
+      document.cookie = isGranted(categories, category)
+        ? '_hjOptOut=; Max-Age=0; Path=/'
+        : `_hjOptOut=true; Max-Age=${60 * 60 * 24 * 365}; Path=/; SameSite=Lax`;
+    },
+  };
+}
+
+// ─── Public API ───
+
+/**
+ * Sends a consent state to every adapter. An adapter that throws doesn't
+ * stop the others. `<CookieConsent adapters>` calls this on load and after
+ * every choice. Adapters whose `vendor` fails `isVendorAllowed` get every
+ * optional category denied.
+ */
+export function applyConsentAdapters(
+  adapters: ConsentAdapter[],
+  categories: ConsentCategories,
+  isVendorAllowed?: (vendor: string) => boolean,
+): void {
+  const refused = resolveCategories('necessary', Object.keys(categories));
+  adapters.forEach((adapter) => {
+    try {
+      const allowed =
+        !adapter.vendor || !isVendorAllowed || isVendorAllowed(adapter.vendor);
+      adapter.update(allowed ? categories : refused);
+    } catch {
+      // A broken vendor tag must not block the others
+    }
+  });
+}
@@ -0,0 +1,205 @@
+import type {
+  ConsentCategories,
+  ConsentCategory,
+  ConsentVendor,
+  ConsentVendors,
+  LocalizedText,
+} from './types';
+import { COOKIE_CATALOG } from './cookie-catalog';
+import type { CatalogVendor } from './cookie-catalog';
+
+// ─── Registry ───
+
+const registry = new Map<string, ConsentVendor>();
+
+/**
+ * Adds vendors for every banner, `useConsent()`, `<ConsentGate>` and
+ * consent manager on the page. A vendor with the same id replaces the
+ * previous one.
+ */
+export function registerVendor(...vendors: ConsentVendor[]): void {
+  vendors.forEach((vendor) => registry.set(vendor.id, vendor));
+}
+
+/** `extra` followed by the registered vendors, one per id. */
+export function getVendors(extra: ConsentVendor[] = []): ConsentVendor[] {
+  const vendors = [...extra];
+  registry.forEach((vendor) => {
+    if (!vendors.some((v) => v.id === vendor.id)) vendors.push(vendor);
+  });
+  return vendors;
+}
+
+// ─── Catalog ───
+
+const CATALOG_DETAILS: Record<
+  CatalogVendor,
+  { name: string; provider: string; purpose: LocalizedText; privacyUrl: string }
+> = {
+  ga4: {
+    name: 'Google Analytics',
+    provider: 'Google',
+    purpose: {
+      fr: 'Mesure de l’audience et de l’utilisation du site.',
+      en: 'Measures traffic and how the site is used.',
+    },
+    privacyUrl: 'https://policies.google.com/privacy',
+  },
+  'google-ads': {
+    name: 'Google Ads',
+    provider: 'Google',
+    purpose: {
+      fr: 'Mesure des conversions publicitaires.',
+      en: 'Measures ad conversions.',
+    },
+    privacyUrl: 'https://policies.google.com/privacy',
+  },
+  'meta-pixel': {
+    name: 'Meta Pixel',
+    provider: 'Meta',
+    purpose: {
+      fr: 'Mesure et ciblage des publicités Facebook et Instagram.',
+      en: 'Measures and targets Facebook and Instagram ads.',
+    },
+    privacyUrl: 'https://www.facebook.com/privacy/policy/',
+  },
+  hotjar: {
+    name: 'Hotjar',
+    provider: 'Hotjar',
+    purpose: {
+      fr: 'Cartes de chaleur et enregistrements de sessions.',
+      en: 'Heatmaps and session recordings.',
+    },
+    privacyUrl: 'https://www.hotjar.com/legal/policies/privacy/',
+  },
+  linkedin: {
+    name: 'LinkedIn Insight Tag',
+    provider: 'LinkedIn',
+    purpose: {
+      fr: 'Mesure et ciblage des publicités LinkedIn.',
+      en: 'Measures and targets LinkedIn ads.',
+    },
+    privacyUrl: 'https://www.linkedin.com/legal/privacy-policy',
+  },
+  tiktok: {
+    name: 'TikTok Pixel',
+    provider: 'TikTok',
+    purpose: {
+      fr: 'Mesure et ciblage des publicités TikTok.',
+      en: 'Measures and targets TikTok ads.',
+    },
+    privacyUrl: 'https://www.tiktok.com/legal/privacy-policy',
+  },
+  clarity: {
+    name: 'Microsoft Clarity',
+    provider: 'Microsoft',
+    purpose: {
+      fr: 'Cartes de chaleur et enregistrements de sessions.',
+      en: 'Heatmaps and session recordings.',
+    },
+    privacyUrl: 'https://privacy.microsoft.com/privacystatement',
+  },
+};
+
+/**
+ * Vendor entries for catalog vendors, with their cookies from
+ * `COOKIE_CATALOG`. Ids match the built-in adapters.
+ *
+ * @example
+ * ```tsx
+ * <CookieConsent vendors={getCatalogVendors('ga4', 'hotjar', 'meta-pixel')} />
+ * ```
+ */
+export function getCatalogVendors(...ids: CatalogVendor[]): ConsentVendor[] {
+  return ids.map((id) => ({
+    id,
+    ...CATALOG_DETAILS[id],
+    category: COOKIE_CATALOG[id][0].category,
+    cookies: COOKIE_CATALOG[id],
+  }));
+}
+
+// ─── States ───
+
+const isGrantedIn = (categories: ConsentCategories, category: ConsentCategory) =>
+  category === 'necessary' || categories[category] === true;
+
+/**
+ * Whether a vendor is allowed: its category is granted and the visitor
+ * didn't refuse it. Vendors missing from `vendors` are only allowed when
+ * stored as such.
+ */
+export function isVendorAllowed(
+  id: string,
+  categories: ConsentCategories | null,
+  states: ConsentVendors | null,
+  vendors: ConsentVendor[],
+): boolean {
+  if (!categories) return false;
+  const vendor = vendors.find((v) => v.id === id);
+  if (!vendor) return states?.[id] === true;
+  return isGrantedIn(categories, vendor.category) && states?.[id] !== false;
+}
+
+/**
+ * Vendor states to store with a choice. Vendors of denied categories are
+ * refused. Otherwise `explicit` wins, then the previous state when the
+ * category was already granted. A category granted anew allows all its
+ * vendors, unless `explicit` names some of them: then only those.
+ */
+export function resolveVendorStates(
+  vendors: ConsentVendor[],
+  categories: ConsentCategories,
+  previous: { categories: ConsentCategories | null; vendors: ConsentVendors | null },
+  explicit: Partial<ConsentVendors> = {},
+): ConsentVendors {
+  // Vendors this page doesn't know about keep their state
+  const states: ConsentVendors = { ...previous.vendors };
+  Object.keys(explicit).forEach((id) => {
+    if (typeof explicit[id] === 'boolean') states[id] = explicit[id] as boolean;
+  });
+  vendors.forEach((vendor) => {
+    const chosen = explicit[vendor.id];
+    const stillGranted =
+      !!previous.categories && isGrantedIn(previous.categories, vendor.category);
+    const named = vendors.some(
+      (v) => v.category === vendor.category && typeof explicit[v.id] === 'boolean',
+    );
+    if (!isGrantedIn(categories, vendor.category)) states[vendor.id] = false;
+    else if (typeof chosen === 'boolean') states[vendor.id] = chosen;
+    else if (stillGranted && typeof previous.vendors?.[vendor.id] === 'boolean') {
+      states[vendor.id] = previous.vendors[vendor.id];
+    } else states[vendor.id] = !named;
+  });
+  return states;
+}
+
+/** Vendors allowed by `previous` that `next` no longer allows. */
+export function getRefusedVendors(
+  vendors: ConsentVendor[],
+  previous: { categories: ConsentCategories | null; vendors: ConsentVendors | null },
+  next: { categories: ConsentCategories | null; vendors: ConsentVendors | null },
+): ConsentVendor[] {
+  return vendors.filter(
+    (vendor) =>
+      isVendorAllowed(vendor.id, previous.categories, previous.vendors, vendors) &&
+      !isVendorAllowed(vendor.id, next.categories, next.vendors, vendors),
+  );
+}
+
+/** Parses stored vendor states, or `null`. */
+export function parseStoredVendors(json: string | null): ConsentVendors | null {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    const states: ConsentVendors = {};
+    Object.keys(parsed).forEach((id) => {
+      const value = (parsed as Record<string, unknown>)[id];
+      if (typeof value === 'boolean') states[id] = value;
+    });
+    return states;
+  } catch {
+    return null;
+  }
+}